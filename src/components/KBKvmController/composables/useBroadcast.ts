@@ -0,0 +1,167 @@
+import {computed, ref} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {useSessionsStore} from '@/stores/sessions'
+import {useSettingsStore} from '@/stores/settings'
+import {useSerialSessions, useSerialState} from '../utils/serial-state'
+import {DEFAULT_KEYBOARD_LAYOUT} from '../utils/keyboard-layouts'
+import {genReleaseAllPacket} from '../utils/session-recording'
+
+export type BroadcastStatus = 'idle' | 'ok' | 'error' | 'disconnected'
+
+export interface IBroadcastTargetStatus {
+  status: BroadcastStatus
+  // Writes delivered to the port since broadcasting was enabled
+  sent: number
+  failed: number
+  lastError: string
+}
+
+const createTargetStatus = (): IBroadcastTargetStatus => {
+  return {status: 'idle', sent: 0, failed: 0, lastError: ''}
+}
+
+/**
+ * Composable for mirroring keyboard input of the active session to other connected sessions
+ * Mouse input is never mirrored, the targets rarely show the same screen layout.
+ * The HID reports are mirrored as built for the active session, so the targets need its
+ * keyboard layout and remap profile to get the same characters.
+ */
+export const useBroadcast = createGlobalState(() => {
+  const sessionsStore = useSessionsStore()
+  const settingsStore = useSettingsStore()
+  const {getState} = useSerialSessions()
+  const {writeSerial} = useSerialState()
+
+  const isBroadcasting = ref(false)
+  const isPanelVisible = ref(false)
+  // Sessions the input is mirrored to, the active session is always written
+  const targetIds = ref<string[]>([])
+  const targetStatus = ref<Record<string, IBroadcastTargetStatus>>({})
+
+  const mirrorIds = computed(() => {
+    if (!isBroadcasting.value) {
+      return []
+    }
+    return targetIds.value.filter((id) => {
+      return (
+        id !== sessionsStore.activeSessionId &&
+        sessionsStore.sessions.some((s) => s.id === id)
+      )
+    })
+  })
+
+  // The target types with another keyboard layout or remap profile than the active session
+  const hasInputMismatch = (id: string) => {
+    const settings = sessionsStore.sessions.find((s) => s.id === id)?.settings
+    if (!settings) {
+      return false
+    }
+    return (
+      (settings.targetKeyboardLayout ?? DEFAULT_KEYBOARD_LAYOUT) !==
+        settingsStore.targetKeyboardLayout ||
+      (settings.remapProfileId ?? '') !== settingsStore.remapProfileId
+    )
+  }
+
+  const warnInputMismatch = (ids: string[]) => {
+    const names = sessionsStore.sessions
+      .filter((s) => ids.includes(s.id) && hasInputMismatch(s.id))
+      .map((s) => s.name)
+    if (names.length) {
+      window.$notification({
+        type: 'warning',
+        message: `${names.join(', ')} use another keyboard layout or remap profile, broadcast keys may type other characters there`,
+        timeout: 5000,
+      })
+    }
+  }
+
+  const getTargetStatus = (id: string) => {
+    return targetStatus.value[id] ?? createTargetStatus()
+  }
+
+  const updateStatus = (
+    id: string,
+    update: Partial<IBroadcastTargetStatus>,
+  ) => {
+    targetStatus.value[id] = {...getTargetStatus(id), ...update}
+  }
+
+  const writeTarget = async (id: string, data: Uint8Array) => {
+    const state = getState(id)
+    if (!state.transport.value) {
+      updateStatus(id, {status: 'disconnected'})
+      return
+    }
+    try {
+      await state.writeSerial(data)
+      updateStatus(id, {status: 'ok', sent: getTargetStatus(id).sent + 1})
+    } catch (error: any) {
+      updateStatus(id, {
+        status: 'error',
+        failed: getTargetStatus(id).failed + 1,
+        lastError: error.message,
+      })
+    }
+  }
+
+  // Keys held on a target that stops receiving input would stay pressed
+  const releaseTarget = (id: string) => {
+    const state = getState(id)
+    if (state.transport.value) {
+      state.writeSerial(genReleaseAllPacket())?.catch(() => {})
+    }
+  }
+
+  /**
+   * Write keyboard data to the active session and every broadcast target
+   * A failing target is reported in its status and does not stop the others
+   */
+  const writeKeyboard = async (data: Uint8Array) => {
+    await Promise.all([
+      writeSerial(data),
+      ...mirrorIds.value.map((id) => writeTarget(id, data)),
+    ])
+  }
+
+  const isTarget = (id: string) => targetIds.value.includes(id)
+
+  // Include or exclude a target, also while broadcasting
+  const toggleTarget = (id: string) => {
+    if (isTarget(id)) {
+      if (mirrorIds.value.includes(id)) {
+        releaseTarget(id)
+      }
+      targetIds.value = targetIds.value.filter((t) => t !== id)
+    } else {
+      targetIds.value = [...targetIds.value, id]
+      updateStatus(id, createTargetStatus())
+      if (mirrorIds.value.includes(id)) {
+        warnInputMismatch([id])
+      }
+    }
+  }
+
+  const setBroadcasting = (enabled: boolean) => {
+    if (!enabled) {
+      mirrorIds.value.forEach(releaseTarget)
+    } else {
+      targetStatus.value = {}
+    }
+    isBroadcasting.value = enabled
+    warnInputMismatch(mirrorIds.value)
+  }
+
+  return {
+    isBroadcasting,
+    isPanelVisible,
+    targetIds,
+    mirrorIds,
+    getTargetStatus,
+    hasInputMismatch,
+    isTarget,
+    toggleTarget,
+    setBroadcasting,
+    writeKeyboard,
+  }
+})
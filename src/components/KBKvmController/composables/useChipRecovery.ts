@@ -0,0 +1,117 @@
+import {ref} from 'vue'
+import {useSettingsStore} from '@/stores/settings'
+import {useSessionsStore} from '@/stores/sessions'
+import {sleep} from '../utils'
+import {CmdType, DEFAULT_CHIP_ADDRESS, decodeParaConfig} from '../utils/ch9329'
+import {
+  detectBaudRate,
+  probeChip,
+  resetChip,
+  sendCommandExpectSuccess,
+  setParaConfig,
+} from '../utils/ch9329-client'
+import {useSerialState} from '../utils/serial-state'
+import {useKvmSessions} from './useKvmSessions'
+
+export type RecoveryAction = 'reset' | 'factory'
+
+export interface IRecoveryLogItem {
+  type: 'info' | 'success' | 'error'
+  message: string
+  timestamp: number
+}
+
+// Baud rate the chip uses after restoring the factory configuration
+const FACTORY_BAUD_RATE = 9600
+// Time for the chip to restart after CMD_RESET
+const RESTART_DELAY = 500
+
+/**
+ * Composable for recovering a misconfigured CH9329 chip
+ * Resets the chip or restores its factory configuration, reconnects and
+ * writes back the preferred configuration saved in the settings
+ */
+export function useChipRecovery() {
+  const settingsStore = useSettingsStore()
+  const sessionsStore = useSessionsStore()
+  const {reopenSerial} = useSerialState()
+  const {setSessionAddress} = useKvmSessions()
+
+  const isRecovering = ref(false)
+  const recoveryLog = ref<IRecoveryLogItem[]>([])
+
+  const log = (message: string, type: IRecoveryLogItem['type'] = 'info') => {
+    recoveryLog.value.push({type, message, timestamp: Date.now()})
+  }
+
+  const findChipBaudRate = () => {
+    return detectBaudRate((rate) => log(`Trying ${rate} baud...`))
+  }
+
+  const reconnect = async (rate: number) => {
+    await sleep(RESTART_DELAY)
+    log(`Reopening serial port at ${rate} baud...`)
+    await reopenSerial(rate)
+    if (!(await probeChip(20))) {
+      throw new Error('Chip did not respond after restart')
+    }
+    log('Chip is responding', 'success')
+  }
+
+  const runRecovery = async (
+    action: RecoveryAction,
+    restorePreferred: boolean,
+  ) => {
+    if (isRecovering.value) {
+      return
+    }
+    isRecovering.value = true
+    recoveryLog.value = []
+    try {
+      log('Looking for the chip...')
+      let rate = await findChipBaudRate()
+      if (!rate) {
+        throw new Error('Chip is not responding at any supported baud rate')
+      }
+      log(`Chip found at ${rate} baud`, 'success')
+
+      if (action === 'factory') {
+        log('Restoring factory default configuration...')
+        await sendCommandExpectSuccess(CmdType.CMD_SET_DEFAULT_CFG)
+        rate = FACTORY_BAUD_RATE
+        // The chip answers at the factory address from now on
+        setSessionAddress(sessionsStore.activeSessionId, DEFAULT_CHIP_ADDRESS)
+      }
+      log('Resetting chip...')
+      await resetChip()
+      await reconnect(rate)
+
+      const preferred = settingsStore.chipPreferredConfig
+      if (restorePreferred && preferred) {
+        const config = decodeParaConfig(preferred)
+        log('Restoring preferred configuration...')
+        await setParaConfig(config)
+        await resetChip()
+        setSessionAddress(sessionsStore.activeSessionId, config.address)
+        rate = config.baudRate
+        await reconnect(rate)
+      }
+
+      // The port is already open at this rate, KBKvmInput won't reconnect again
+      settingsStore.baudRate = String(rate)
+      log('Recovery finished', 'success')
+    } catch (error: any) {
+      log(error.message, 'error')
+    } finally {
+      isRecovering.value = false
+    }
+  }
+
+  return {
+    isRecovering,
+    recoveryLog,
+    probeChip,
+    findChipBaudRate,
+    runRecovery,
+  }
+}
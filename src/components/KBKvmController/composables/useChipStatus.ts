@@ -0,0 +1,91 @@
+import {computed, ref, watch} from 'vue'
+import {createGlobalState, useIntervalFn} from '@vueuse/core'
+import type {IChipInfo} from '../utils/ch9329'
+import {getChipInfo} from '../utils/ch9329-client'
+import {useSerialState} from '../utils/serial-state'
+
+const POLL_INTERVAL = 2000
+
+/**
+ * Composable for the CH9329 chip status
+ * Polls CMD_GET_INFO while the serial port is connected
+ */
+export const useChipStatus = createGlobalState(() => {
+  const chipInfo = ref<IChipInfo | null>(null)
+  const lastUpdated = ref(0)
+  const lastError = ref('')
+
+  // Only warn once the chip has answered, an unknown state is not a failure
+  const isTargetNotEnumerated = computed(() => {
+    return chipInfo.value !== null && !chipInfo.value.usbEnumerated
+  })
+
+  const refresh = async () => {
+    try {
+      chipInfo.value = await getChipInfo()
+      lastUpdated.value = Date.now()
+      lastError.value = ''
+    } catch (error: any) {
+      lastError.value = error.message
+    }
+  }
+
+  const {pause, resume, isActive} = useIntervalFn(refresh, POLL_INTERVAL, {
+    immediate: false,
+    immediateCallback: true,
+  })
+
+  const startPolling = () => {
+    if (!isActive.value) {
+      resume()
+    }
+  }
+
+  const stopPolling = () => {
+    pause()
+    chipInfo.value = null
+    lastUpdated.value = 0
+    lastError.value = ''
+  }
+
+  const {transport} = useSerialState()
+  watch(
+    transport,
+    (current) => {
+      // Switching sessions goes from one open transport to another, start over for the new chip
+      stopPolling()
+      if (current) {
+        startPolling()
+      }
+    },
+    {immediate: true},
+  )
+
+  /**
+   * Warn before sending input to a target that has not enumerated the USB device yet
+   * @returns true if the target is known to be not ready
+   */
+  const warnIfNotEnumerated = () => {
+    if (!isTargetNotEnumerated.value) {
+      return false
+    }
+    window.$notification({
+      type: 'warning',
+      message: 'Target USB not enumerated, keystrokes may be lost.',
+      timeout: 5000,
+    })
+    return true
+  }
+
+  return {
+    chipInfo,
+    lastUpdated,
+    lastError,
+    isPolling: isActive,
+    isTargetNotEnumerated,
+    refresh,
+    startPolling,
+    stopPolling,
+    warnIfNotEnumerated,
+  }
+})
@@ -0,0 +1,68 @@
+import {ref, shallowRef, triggerRef} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {onHidData, sendHidData} from '../utils/ch9329-client'
+import {encodeHidPayload, type HidPayloadFormat} from '../utils/hid-data'
+
+export interface IHidConsoleEntry {
+  id: number
+  timestamp: number
+  direction: 'out' | 'in'
+  data: number[]
+}
+
+const MAX_ENTRIES = 1000
+
+/**
+ * Composable for the custom HID console
+ * Sends raw payloads to an agent on the target and logs the reports it sends back
+ */
+export const useHidConsole = createGlobalState(() => {
+  const entries = shallowRef<IHidConsoleEntry[]>([])
+  const isConsoleVisible = ref(false)
+  const isSending = ref(false)
+  let nextId = 1
+
+  const addEntry = (
+    direction: IHidConsoleEntry['direction'],
+    data: number[],
+  ) => {
+    const list = entries.value
+    list.push({id: nextId++, timestamp: Date.now(), direction, data})
+    if (list.length > MAX_ENTRIES) {
+      list.splice(0, list.length - MAX_ENTRIES)
+    }
+    triggerRef(entries)
+  }
+
+  /**
+   * Send a payload typed as hex or text
+   * @throws Error if the payload is malformed or the chip rejects it
+   */
+  const send = async (input: string, format: HidPayloadFormat) => {
+    const data = encodeHidPayload(input, format)
+    if (!data.length) {
+      return
+    }
+    isSending.value = true
+    try {
+      await sendHidData(data)
+      addEntry('out', data)
+    } finally {
+      isSending.value = false
+    }
+  }
+
+  const clear = () => {
+    entries.value = []
+  }
+
+  onHidData((data) => addEntry('in', data))
+
+  return {
+    entries,
+    isConsoleVisible,
+    isSending,
+    send,
+    clear,
+  }
+})
@@ -0,0 +1,57 @@
+import {computed} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {useSettingsStore} from '@/stores/settings'
+import {useRemapProfilesStore} from '@/stores/remapProfiles'
+import {KeyRemap} from '../utils/key-remap'
+import {parseHotkey} from './useKeyboardLock'
+
+export const DEFAULT_REMAP_CYCLE_HOTKEY = 'CTRL+ALT+K'
+
+/**
+ * Composable for the key remapping profile of the active session
+ * The profile is a session setting, so every target can use its own one.
+ */
+export const useKeyRemap = createGlobalState(() => {
+  const settingsStore = useSettingsStore()
+  const remapProfilesStore = useRemapProfilesStore()
+
+  const activeProfile = computed(() => {
+    return remapProfilesStore.profiles.find(
+      (p) => p.id === settingsStore.remapProfileId,
+    )
+  })
+
+  // Rebuilt whenever a rule of the profile is edited
+  const keyRemap = computed(() => {
+    return activeProfile.value ? new KeyRemap(activeProfile.value.rules) : null
+  })
+
+  const hasProfiles = computed(() => remapProfilesStore.profiles.length > 0)
+
+  const cycleHotkey = computed(() => {
+    return (
+      parseHotkey(settingsStore.remapCycleHotkey) ??
+      parseHotkey(DEFAULT_REMAP_CYCLE_HOTKEY)!
+    )
+  })
+
+  // Switch to the next profile, after the last one remapping is turned off
+  const cycleProfile = () => {
+    const ids = ['', ...remapProfilesStore.profiles.map((p) => p.id)]
+    const index = ids.indexOf(activeProfile.value?.id ?? '')
+    settingsStore.remapProfileId = ids[(index + 1) % ids.length]
+    window.$notification({
+      type: 'info',
+      message: `Key remapping: ${activeProfile.value?.name ?? 'off'}`,
+      timeout: 2000,
+    })
+  }
+
+  return {
+    activeProfile,
+    keyRemap,
+    hasProfiles,
+    cycleHotkey,
+    cycleProfile,
+  }
+})
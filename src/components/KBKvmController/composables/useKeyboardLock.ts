@@ -0,0 +1,108 @@
+import {computed, ref, watch} from 'vue'
+import {createGlobalState, useEventListener} from '@vueuse/core'
+import {useSettingsStore} from '@/stores/settings'
+import {useSerialState} from '../utils/serial-state'
+import {type IKeyCombo, parseKeyCombo} from '../utils/kvm-input'
+
+export const DEFAULT_RELEASE_HOTKEY = 'SHIFT+ESCAPE'
+
+// Shortcuts the browser or the host OS keeps for itself unless the keyboard is locked
+export const LOCKED_KEYS_SUMMARY =
+  'Ctrl+W, Ctrl+T, Ctrl+N, Alt+Tab, the Meta key and Esc (hold Esc to leave fullscreen)'
+
+/**
+ * Parse a hotkey setting, it needs a key besides the modifiers
+ * @returns null if the hotkey is not a valid combo
+ */
+export const parseHotkey = (hotkey: string): IKeyCombo | null => {
+  try {
+    const combo = parseKeyCombo(hotkey)
+    return combo.hidCode ? combo : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Composable for the Keyboard Lock API
+ * Browsers only grant the lock in fullscreen, so it is taken when a connected KVM goes
+ * fullscreen and given back on exit or with the release hotkey.
+ * https://developer.mozilla.org/en-US/docs/Web/API/Keyboard/lock
+ */
+export const useKeyboardLock = createGlobalState(() => {
+  const settingsStore = useSettingsStore()
+  const {transport} = useSerialState()
+  const keyboard = (navigator as any).keyboard
+  const isSupported = typeof keyboard?.lock === 'function'
+
+  const isFullscreen = ref(!!document.fullscreenElement)
+  const isLocked = ref(false)
+  // Released with the hotkey, stays so until the next fullscreen
+  const isReleased = ref(false)
+
+  const releaseHotkey = computed(() => {
+    return (
+      parseHotkey(settingsStore.releaseHotkey) ??
+      parseHotkey(DEFAULT_RELEASE_HOTKEY)!
+    )
+  })
+
+  const shouldLock = computed(() => {
+    return (
+      isSupported &&
+      isFullscreen.value &&
+      settingsStore.keyboardLockInFullscreen &&
+      settingsStore.enableKvmInput &&
+      !!transport.value &&
+      !isReleased.value
+    )
+  })
+
+  watch(shouldLock, async (lock) => {
+    if (!lock) {
+      if (isLocked.value) {
+        keyboard.unlock()
+        isLocked.value = false
+      }
+      return
+    }
+    try {
+      // Without a key list every key is locked, Meta and Esc included
+      await keyboard.lock()
+      isLocked.value = true
+      window.$notification({
+        type: 'info',
+        message: `Keyboard locked, ${LOCKED_KEYS_SUMMARY} go to the target. ${settingsStore.releaseHotkey} releases it.`,
+        timeout: 4000,
+      })
+    } catch (error) {
+      console.warn('Keyboard lock failed', error)
+    }
+  })
+
+  useEventListener(document, 'fullscreenchange', () => {
+    isFullscreen.value = !!document.fullscreenElement
+    isReleased.value = false
+    if (!isFullscreen.value) {
+      // The browser gives the lock back together with fullscreen
+      isLocked.value = false
+    }
+  })
+
+  const release = () => {
+    isReleased.value = true
+  }
+
+  const toggleLock = () => {
+    isReleased.value = !isReleased.value
+  }
+
+  return {
+    isSupported,
+    isFullscreen,
+    isLocked,
+    releaseHotkey,
+    release,
+    toggleLock,
+  }
+})
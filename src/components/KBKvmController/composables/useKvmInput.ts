@@ -0,0 +1,70 @@
+import {watch} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {useSettingsStore} from '@/stores/settings'
+import {useSerialState} from '../utils/serial-state'
+import {type ITypeResult, KvmInputService} from '../utils/kvm-input'
+import {getKeyboardLayout} from '../utils/keyboard-layouts'
+import {useBroadcast} from './useBroadcast'
+import {useKeyRemap} from './useKeyRemap'
+
+/**
+ * Input service of the active session
+ * Keyboard input is mirrored to the broadcast targets, mouse input is not
+ */
+export const useKvmInput = createGlobalState(() => {
+  const {writeSerial} = useSerialState()
+  const {writeKeyboard} = useBroadcast()
+
+  const input = new KvmInputService({
+    writeKeyboard,
+    writeMouse: writeSerial,
+  })
+
+  // The layout setting belongs to the session, so it changes on session switch too
+  const settingsStore = useSettingsStore()
+  watch(
+    () => settingsStore.targetKeyboardLayout,
+    (id) => {
+      input.layout = getKeyboardLayout(id)
+    },
+    {immediate: true},
+  )
+  watch(
+    () => settingsStore.unicodeInputMethod,
+    (method) => {
+      input.unicodeMethod = method
+    },
+    {immediate: true},
+  )
+  const {keyRemap} = useKeyRemap()
+  watch(
+    keyRemap,
+    (remap) => {
+      input.keyRemap = remap
+    },
+    {immediate: true},
+  )
+
+  // Tell the user about the parts of a typed text that could not be sent
+  const notifyTypeResult = ({skipped, errors}: ITypeResult) => {
+    if (skipped.length) {
+      window.$notification({
+        type: 'error',
+        message: `[${skipped.join(', ')}] send failed, the target keyboard layout and Unicode input method can't type them.`,
+        timeout: 3000,
+      })
+    }
+    for (const message of errors) {
+      window.$notification({
+        type: 'warning',
+        message,
+        timeout: 3000,
+      })
+    }
+  }
+
+  return {
+    input,
+    notifyTypeResult,
+  }
+})
@@ -0,0 +1,168 @@
+import {computed} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {useSettingsStore} from '@/stores/settings'
+import {
+  type IKvmSession,
+  type ISessionSettings,
+  SESSION_SETTINGS_KEYS,
+  useSessionsStore,
+} from '@/stores/sessions'
+import {eventBus} from '@/utils/event-bus'
+import {useSerialSessions} from '../utils/serial-state'
+import {genReleaseAllPacket} from '../utils/session-recording'
+
+// Ctrl+Alt+1..9 switch to the session at that position
+export const MAX_SESSION_HOTKEYS = 9
+
+/**
+ * Composable for named KVM sessions, each pairing a serial port, a capture device
+ * and its own settings. Sessions stay connected in the background while another one is active.
+ */
+export const useKvmSessions = createGlobalState(() => {
+  const settingsStore = useSettingsStore()
+  const sessionsStore = useSessionsStore()
+  const {activeState, getState, removeState} = useSerialSessions()
+
+  const activeSession = computed(() => {
+    return sessionsStore.sessions.find(
+      (s) => s.id === sessionsStore.activeSessionId,
+    )
+  })
+
+  const snapshotSettings = (): ISessionSettings => {
+    const settings: Record<string, unknown> = {}
+    for (const key of SESSION_SETTINGS_KEYS) {
+      settings[key] = settingsStore[key]
+    }
+    // Deep copy, the settings store must not share objects with the session
+    return JSON.parse(JSON.stringify(settings))
+  }
+
+  const isSessionConnected = (id: string) => {
+    return !!getState(id).transport.value
+  }
+
+  /**
+   * Move keyboard, mouse and video to another session without closing any port
+   */
+  const switchSession = async (id: string) => {
+    const target = sessionsStore.sessions.find((s) => s.id === id)
+    if (!target || id === sessionsStore.activeSessionId) {
+      return
+    }
+    // Keys held on the previous target would stay pressed until it gets input again
+    const {transport, writeSerial} = activeState.value
+    if (transport.value) {
+      await writeSerial(genReleaseAllPacket())?.catch(() => {})
+    }
+    if (activeSession.value) {
+      activeSession.value.settings = snapshotSettings()
+    }
+    sessionsStore.activeSessionId = id
+    // Sessions saved before the preferred chip config was per session have none
+    settingsStore.$patch({
+      chipPreferredConfig: null,
+      ...JSON.parse(JSON.stringify(target.settings)),
+    })
+    eventBus.emit('kvm_session_switch', target)
+  }
+
+  /**
+   * Switch to the session at the given position of the list
+   * @returns false if there is no session at that position
+   */
+  const switchSessionByIndex = (index: number) => {
+    const session = sessionsStore.sessions[index]
+    if (!session) {
+      return false
+    }
+    switchSession(session.id)
+    return true
+  }
+
+  /**
+   * Add a session starting from the current settings, without port and capture device
+   */
+  const addSession = async (name: string) => {
+    const session: IKvmSession = {
+      id: Date.now().toString(),
+      name,
+      settings: {
+        ...snapshotSettings(),
+        lastSerialPort: null,
+        currentVideoDeviceId: '',
+        currentAudioDeviceId: '',
+        videoConfig: null,
+        chipPreferredConfig: null,
+      },
+    }
+    sessionsStore.addSession(session)
+    await switchSession(session.id)
+    return session
+  }
+
+  const removeSession = async (id: string) => {
+    if (sessionsStore.sessions.length <= 1) {
+      window.$notification({
+        type: 'warning',
+        message: 'The last session cannot be removed',
+        timeout: 3000,
+      })
+      return
+    }
+    if (id === sessionsStore.activeSessionId) {
+      const next = sessionsStore.sessions.find((s) => s.id !== id)
+      if (next) {
+        await switchSession(next.id)
+      }
+    }
+    await removeState(id)
+    sessionsStore.deleteSession(id)
+  }
+
+  // Check an address before configuring the chip, setSessionAddress would throw afterwards
+  const isSessionAddressTaken = (id: string, address: number) => {
+    return getState(id).isChipAddressTaken(address)
+  }
+
+  /**
+   * Change the address code the session's chip is reached at
+   * @throws Error if the address is invalid or used by another session on the same port
+   */
+  const setSessionAddress = (id: string, address: number) => {
+    getState(id).setChipAddress(address)
+    sessionsStore.setSessionAddress(id, address)
+  }
+
+  /**
+   * Connect the active session through the port of another session,
+   * for chips with distinct addresses on one RS-485/TTL bus
+   */
+  const shareSessionPort = async (fromId: string) => {
+    await activeState.value.shareSerial(getState(fromId).link.value)
+  }
+
+  const renameSession = (id: string, name: string) => {
+    if (name.trim()) {
+      sessionsStore.renameSession(id, name.trim())
+    }
+  }
+
+  // Ensure the active id points to an existing session, e.g. after editing the storage
+  if (!activeSession.value && sessionsStore.sessions.length) {
+    sessionsStore.activeSessionId = sessionsStore.sessions[0].id
+  }
+
+  return {
+    activeSession,
+    isSessionConnected,
+    switchSession,
+    switchSessionByIndex,
+    addSession,
+    removeSession,
+    renameSession,
+    isSessionAddressTaken,
+    setSessionAddress,
+    shareSessionPort,
+  }
+})
@@ -0,0 +1,168 @@
+import {computed, ref} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {useSettingsStore} from '@/stores/settings'
+import {eventBus} from '@/utils/event-bus'
+import {sleep} from '../utils'
+import {useSerialState} from '../utils/serial-state'
+import {useKvmInput} from './useKvmInput'
+
+export type PasteJobStatus = 'running' | 'paused' | 'done' | 'cancelled'
+
+export interface IPasteJob {
+  // Shown in the panel, the file name for dropped files
+  name: string
+  total: number
+  typed: number
+  skipped: string[]
+  status: PasteJobStatus
+  // Time spent typing in ms, pauses excluded
+  elapsed: number
+}
+
+// Characters typed before the measured rate replaces the configured one in the ETA
+const ETA_WARMUP_CHARS = 20
+
+/**
+ * Composable for bulk text paste
+ * Types long texts character by character with progress, pause, resume and cancel.
+ * The rate and the pause after each line are read live, so they can be changed while typing.
+ */
+export const usePasteJob = createGlobalState(() => {
+  const settingsStore = useSettingsStore()
+  const {transport} = useSerialState()
+  const {input, notifyTypeResult} = useKvmInput()
+
+  const job = ref<IPasteJob | null>(null)
+  let resumeJob: (() => void) | null = null
+
+  const isActive = computed(() => {
+    const status = job.value?.status
+    return status === 'running' || status === 'paused'
+  })
+
+  // Seconds left, from the measured rate once typing is under way
+  const eta = computed(() => {
+    const current = job.value
+    if (!current || !isActive.value) {
+      return 0
+    }
+    const rate =
+      current.typed >= ETA_WARMUP_CHARS && current.elapsed > 0
+        ? current.typed / (current.elapsed / 1000)
+        : settingsStore.pasteCharsPerSecond
+    return (current.total - current.typed) / rate
+  })
+
+  const stop = (message: string) => {
+    if (job.value && isActive.value) {
+      job.value.status = 'cancelled'
+      resumeJob?.()
+      window.$notification({
+        type: 'warning',
+        message,
+        timeout: 3000,
+      })
+    }
+  }
+
+  /**
+   * Type a text on the active session in the background
+   * Only one paste runs at a time.
+   */
+  const start = async (text: string, name = 'Text') => {
+    if (isActive.value) {
+      window.$notification({
+        type: 'warning',
+        message: 'A paste is already running, cancel it first',
+        timeout: 3000,
+      })
+      return
+    }
+    const chars = [...text.replace(/\r\n?/g, '\n')]
+    job.value = {
+      name,
+      total: chars.length,
+      typed: 0,
+      skipped: [],
+      status: 'running',
+      elapsed: 0,
+    }
+    const current = job.value
+
+    for (const char of chars) {
+      if (current.status === 'paused') {
+        await new Promise<void>((resolve) => (resumeJob = resolve))
+        resumeJob = null
+      }
+      if (current.status === 'cancelled') {
+        break
+      }
+      if (!transport.value) {
+        stop('Serial disconnected, paste stopped')
+        break
+      }
+      const startedAt = performance.now()
+      const interval = 1000 / Math.max(1, settingsStore.pasteCharsPerSecond)
+      try {
+        current.skipped.push(...(await input.typeText(char, interval)))
+      } catch (error: any) {
+        stop(`Paste stopped: ${error.message}`)
+        break
+      }
+      if (char === '\n' && settingsStore.pasteNewlinePause > 0) {
+        // Slow terminals and serial consoles need time to process each line
+        await sleep(settingsStore.pasteNewlinePause)
+      }
+      current.typed++
+      current.elapsed += performance.now() - startedAt
+    }
+
+    if (current.status !== 'cancelled') {
+      current.status = 'done'
+    }
+    notifyTypeResult({skipped: current.skipped, errors: []})
+  }
+
+  const pause = () => {
+    if (job.value?.status === 'running') {
+      job.value.status = 'paused'
+    }
+  }
+
+  const resume = () => {
+    if (job.value?.status === 'paused') {
+      job.value.status = 'running'
+      resumeJob?.()
+    }
+  }
+
+  const cancel = () => {
+    if (job.value && isActive.value) {
+      job.value.status = 'cancelled'
+      resumeJob?.()
+    }
+  }
+
+  // Forget a finished job and hide its panel
+  const dismiss = () => {
+    if (!isActive.value) {
+      job.value = null
+    }
+  }
+
+  // The rest of the text belongs to the previous target
+  eventBus.on('kvm_session_switch', () => {
+    stop('Session switched, paste cancelled')
+  })
+
+  return {
+    job,
+    isActive,
+    eta,
+    start,
+    pause,
+    resume,
+    cancel,
+    dismiss,
+  }
+})
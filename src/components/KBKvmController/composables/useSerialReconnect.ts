@@ -0,0 +1,147 @@
+import {ref} from 'vue'
+import {createGlobalState, useEventListener} from '@vueuse/core'
+import type {SerialPort} from 'web-serial-polyfill'
+import {useSettingsStore} from '@/stores/settings'
+import {eventBus} from '@/utils/event-bus'
+import {sleep} from '../utils'
+import {useSerialSessions, useSerialState} from '../utils/serial-state'
+import {type KvmTransport, WebSerialTransport} from '../utils/transport'
+
+// The device needs a moment after it is plugged in before it can be opened
+const OPEN_RETRIES = 5
+const OPEN_RETRY_DELAY = 500
+
+/**
+ * Composable for reopening the last Web Serial port without the port picker
+ * Restores the port on page load and waits for it to come back after it was unplugged
+ */
+export const useSerialReconnect = createGlobalState(() => {
+  const settingsStore = useSettingsStore()
+  const {transport, openSerial, closeSerial} = useSerialState()
+  const {isPortInUse} = useSerialSessions()
+
+  // The port was unplugged and is reopened as soon as it is plugged in again
+  const isReconnecting = ref(false)
+  // Cleared when the user closes the port, so it is not reopened behind their back
+  let shouldRestore = true
+
+  // Web Serial is not part of the DOM typings
+  const serial = (navigator as any).serial
+
+  const rememberPort = (port: SerialPort) => {
+    const {usbVendorId, usbProductId} = port.getInfo()
+    settingsStore.lastSerialPort = {usbVendorId, usbProductId}
+    shouldRestore = true
+  }
+
+  const isRememberedPort = (port: SerialPort) => {
+    const remembered = settingsStore.lastSerialPort
+    if (!remembered) {
+      return false
+    }
+    const {usbVendorId, usbProductId} = port.getInfo()
+    return (
+      usbVendorId === remembered.usbVendorId &&
+      usbProductId === remembered.usbProductId
+    )
+  }
+
+  const openPort = async (port: SerialPort, attempts = 1) => {
+    const rate = +settingsStore.baudRate
+    for (let i = 1; i <= attempts; i++) {
+      try {
+        await openSerial(new WebSerialTransport(port), rate)
+        return true
+      } catch (error) {
+        console.warn(`Open serial port failed (${i}/${attempts})`, error)
+        if (i < attempts) {
+          await sleep(OPEN_RETRY_DELAY)
+        }
+      }
+    }
+    return false
+  }
+
+  /**
+   * Reopen the remembered port if the browser still grants access to it
+   * @returns true if the port was opened
+   */
+  const restoreLastPort = async () => {
+    if (
+      transport.value ||
+      !serial?.getPorts ||
+      !settingsStore.lastSerialPort ||
+      !settingsStore.baudRate
+    ) {
+      return false
+    }
+    const ports: SerialPort[] = await serial.getPorts()
+    // Another session may be connected to a unit of the same model
+    const port = ports.find((p) => isRememberedPort(p) && !isPortInUse(p))
+    if (!port) {
+      return false
+    }
+    return openPort(port)
+  }
+
+  const cancelReconnect = () => {
+    isReconnecting.value = false
+    shouldRestore = false
+  }
+
+  // Close from the UI, the port stays remembered for the next page load
+  const closeByUser = async () => {
+    cancelReconnect()
+    await closeSerial()
+  }
+
+  eventBus.on('serial_disconnect', (target: KvmTransport) => {
+    // WebUSB devices are not reported by navigator.serial, so they can't be reopened on connect
+    if (target.kind === 'web-serial' && shouldRestore) {
+      isReconnecting.value = true
+    }
+  })
+
+  // Each session remembers its own port, connect it when switching to a session without one
+  eventBus.on('kvm_session_switch', async () => {
+    isReconnecting.value = false
+    shouldRestore = true
+    try {
+      await restoreLastPort()
+    } catch (error) {
+      console.warn('Restore serial port failed', error)
+    }
+  })
+
+  if (serial) {
+    useEventListener(serial, 'connect', async (event: Event) => {
+      const port = event.target as unknown as SerialPort
+      if (
+        !shouldRestore ||
+        transport.value ||
+        !settingsStore.baudRate ||
+        !isRememberedPort(port) ||
+        isPortInUse(port)
+      ) {
+        return
+      }
+      const opened = await openPort(port, OPEN_RETRIES)
+      isReconnecting.value = false
+      window.$notification({
+        type: opened ? 'success' : 'error',
+        message: opened
+          ? 'Serial device reconnected'
+          : 'Serial device is back but could not be opened',
+        timeout: 3000,
+      })
+    })
+  }
+
+  return {
+    isReconnecting,
+    rememberPort,
+    restoreLastPort,
+    cancelReconnect,
+    closeByUser,
+  }
+})
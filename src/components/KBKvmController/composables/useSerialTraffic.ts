@@ -0,0 +1,59 @@
+import {ref, shallowRef, triggerRef} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import moment from 'moment'
+import type {ICh9329Frame} from '../utils/ch9329'
+import {
+  formatTrafficLog,
+  type ITrafficEntry,
+  type TrafficDirection,
+} from '../utils/traffic-log'
+import {downloadUrl} from '../utils'
+
+// Oldest entries are dropped beyond this, mouse movement alone sends ~60 frames per second
+const MAX_ENTRIES = 5000
+
+/**
+ * Composable for the serial traffic inspector
+ * Keeps a capped log of the frames written to and read from the chip
+ */
+export const useSerialTraffic = createGlobalState(() => {
+  const entries = shallowRef<ITrafficEntry[]>([])
+  const isInspectorVisible = ref(false)
+  const isPaused = ref(false)
+  let nextId = 1
+
+  const record = (direction: TrafficDirection, frame: ICh9329Frame) => {
+    if (isPaused.value) {
+      return
+    }
+    const list = entries.value
+    list.push({id: nextId++, timestamp: Date.now(), direction, frame})
+    if (list.length > MAX_ENTRIES) {
+      list.splice(0, list.length - MAX_ENTRIES)
+    }
+    triggerRef(entries)
+  }
+
+  const clear = () => {
+    entries.value = []
+  }
+
+  const exportLog = (list: ITrafficEntry[] = entries.value) => {
+    const blob = new Blob([formatTrafficLog(list)], {type: 'text/plain'})
+    const url = URL.createObjectURL(blob)
+    downloadUrl(
+      url,
+      `serial_kbkvm_${moment().format('YYYY-MM-DD_HH-mm-ss')}.txt`,
+    )
+    URL.revokeObjectURL(url)
+  }
+
+  return {
+    entries,
+    isInspectorVisible,
+    isPaused,
+    record,
+    clear,
+    exportLog,
+  }
+})
@@ -0,0 +1,182 @@
+import {computed, ref, shallowRef} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import moment from 'moment'
+import {eventBus} from '@/utils/event-bus'
+import type {ICh9329Frame} from '../utils/ch9329'
+import {
+  createSessionFrame,
+  genReleaseAllPacket,
+  type ISessionFrame,
+  type ISessionRecording,
+  parseSessionRecording,
+  SESSION_COMMANDS,
+  SESSION_FORMAT,
+  SESSION_VERSION,
+  sessionFrameBytes,
+} from '../utils/session-recording'
+import {downloadUrl, sleep} from '../utils'
+import {useSerialState} from '../utils/serial-state'
+
+export interface IReplayOptions {
+  // Playback rate, 2 replays twice as fast
+  speed: number
+  loops: number
+}
+
+// Longest sleep between abort checks while waiting for the next frame
+const ABORT_CHECK_INTERVAL = 50
+
+/**
+ * Composable for recording the input frames sent to the chip and replaying
+ * them later with the same relative timing
+ */
+export const useSessionRecorder = createGlobalState(() => {
+  const {transport, writeSerial} = useSerialState()
+
+  const recording = shallowRef<ISessionRecording | null>(null)
+  const isRecording = ref(false)
+  const isReplaying = ref(false)
+  const replayProgress = ref({frame: 0, total: 0, loop: 0, loops: 0})
+
+  let recordedFrames: ISessionFrame[] = []
+  let recordingStart = 0
+  let isAbortRequested = false
+
+  const handleFrameOut = (frame: ICh9329Frame) => {
+    if (!SESSION_COMMANDS.has(frame.cmd)) {
+      return
+    }
+    recordedFrames.push(
+      createSessionFrame(performance.now() - recordingStart, frame),
+    )
+  }
+
+  const startRecording = () => {
+    if (isRecording.value || isReplaying.value) {
+      return
+    }
+    recordedFrames = []
+    recordingStart = performance.now()
+    isRecording.value = true
+    eventBus.on('ch9329_frame_out', handleFrameOut)
+  }
+
+  const stopRecording = () => {
+    if (!isRecording.value) {
+      return null
+    }
+    eventBus.off('ch9329_frame_out', handleFrameOut)
+    isRecording.value = false
+    recording.value = {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      createdAt: new Date().toISOString(),
+      duration: recordedFrames[recordedFrames.length - 1]?.t ?? 0,
+      frames: recordedFrames,
+    }
+    recordedFrames = []
+    return recording.value
+  }
+
+  // Resolves false if the replay was aborted before the deadline
+  const waitUntil = async (deadline: number) => {
+    for (;;) {
+      if (isAbortRequested) {
+        return false
+      }
+      const remaining = deadline - performance.now()
+      if (remaining <= 0) {
+        return true
+      }
+      await sleep(Math.min(remaining, ABORT_CHECK_INTERVAL))
+    }
+  }
+
+  /**
+   * Send the frames of a recording again with their recorded timing
+   * @returns true if every loop was replayed, false if aborted
+   */
+  const replay = async (
+    session: ISessionRecording,
+    {speed, loops}: IReplayOptions,
+  ) => {
+    if (isReplaying.value || isRecording.value) {
+      return false
+    }
+    if (!transport.value) {
+      throw new Error('Serial port not initialized')
+    }
+    if (!(speed > 0)) {
+      throw new Error('Replay speed must be greater than 0')
+    }
+    isReplaying.value = true
+    isAbortRequested = false
+    const total = session.frames.length
+    try {
+      for (let loop = 1; loop <= loops; loop++) {
+        replayProgress.value = {frame: 0, total, loop, loops}
+        const start = performance.now()
+        for (let i = 0; i < total; i++) {
+          const frame = session.frames[i]
+          if (!(await waitUntil(start + frame.t / speed))) {
+            return false
+          }
+          if (!transport.value) {
+            throw new Error('Serial port disconnected during replay')
+          }
+          await writeSerial(sessionFrameBytes(frame))
+          replayProgress.value = {frame: i + 1, total, loop, loops}
+        }
+      }
+      return !isAbortRequested
+    } finally {
+      // Never leave keys or buttons held down on the target
+      if (transport.value) {
+        await writeSerial(genReleaseAllPacket())?.catch(() => {})
+      }
+      isReplaying.value = false
+    }
+  }
+
+  const abortReplay = () => {
+    isAbortRequested = true
+  }
+
+  const saveRecording = () => {
+    if (!recording.value) {
+      return
+    }
+    const data = JSON.stringify(recording.value, null, 2)
+    const blob = new Blob([data], {type: 'application/json'})
+    const url = URL.createObjectURL(blob)
+    downloadUrl(
+      url,
+      `session_kbkvm_${moment().format('YYYY-MM-DD_HH-mm-ss')}.json`,
+    )
+    URL.revokeObjectURL(url)
+  }
+
+  const loadRecording = async (file: File) => {
+    recording.value = parseSessionRecording(await file.text())
+    return recording.value
+  }
+
+  const replayPercent = computed(() => {
+    const {frame, total} = replayProgress.value
+    return total ? Math.round((frame / total) * 100) : 0
+  })
+
+  return {
+    recording,
+    isRecording,
+    isReplaying,
+    replayProgress,
+    replayPercent,
+    startRecording,
+    stopRecording,
+    replay,
+    abortReplay,
+    saveRecording,
+    loadRecording,
+  }
+})
@@ -0,0 +1,143 @@
+import {computed, ref, watch} from 'vue'
+import {createGlobalState} from '@vueuse/core'
+import {eventBus} from '@/utils/event-bus'
+import {useSerialState} from '../utils/serial-state'
+import {MODIFIER_CODES} from '../utils/kvm-input'
+import {
+  type IVirtualMediaKey,
+  virtualKeyHidCode,
+} from '../utils/virtual-keyboard'
+import {useKvmInput} from './useKvmInput'
+
+// A latched modifier applies to the next key only, a locked one until it is clicked again
+export type ModifierState = 'latched' | 'locked'
+
+/**
+ * Composable for the on-screen keyboard
+ * Keys stay held on the target while pressed on screen, modifiers are sticky so combos
+ * can be entered one touch at a time. Reports go out like the ones of the physical keyboard.
+ */
+export const useVirtualKeyboard = createGlobalState(() => {
+  const {transport} = useSerialState()
+  const {input} = useKvmInput()
+
+  const isKeyboardVisible = ref(false)
+  const modifierStates = ref<Record<string, ModifierState>>({})
+  // KeyboardEvent.code of the keys held on screen
+  const heldKeys = ref<string[]>([])
+
+  const modifiers = computed(() => {
+    return Object.keys(modifierStates.value).reduce(
+      (bits, code) => bits | MODIFIER_CODES[code],
+      0,
+    )
+  })
+
+  const sendReport = async () => {
+    if (!transport.value) {
+      return
+    }
+    try {
+      await input.keyboardReport(
+        modifiers.value,
+        heldKeys.value.map(virtualKeyHidCode),
+      )
+    } catch (error: any) {
+      window.$notification({
+        type: 'error',
+        message: error.message,
+        timeout: 3000,
+      })
+    }
+  }
+
+  const isModifier = (code: string) => code in MODIFIER_CODES
+
+  // Off, latched, locked and off again, a locked modifier stays held for mouse clicks too
+  const toggleModifier = async (code: string) => {
+    const state = modifierStates.value[code]
+    if (state === 'latched') {
+      modifierStates.value[code] = 'locked'
+    } else if (state === 'locked') {
+      delete modifierStates.value[code]
+    } else {
+      modifierStates.value[code] = 'latched'
+    }
+    await sendReport()
+  }
+
+  const pressKey = async (code: string) => {
+    if (!heldKeys.value.includes(code)) {
+      heldKeys.value.push(code)
+      await sendReport()
+    }
+  }
+
+  const releaseKey = async (code: string) => {
+    if (!heldKeys.value.includes(code)) {
+      return
+    }
+    heldKeys.value = heldKeys.value.filter((k) => k !== code)
+    if (!heldKeys.value.length) {
+      for (const [modifier, state] of Object.entries(modifierStates.value)) {
+        if (state === 'latched') {
+          delete modifierStates.value[modifier]
+        }
+      }
+    }
+    await sendReport()
+  }
+
+  const pressMediaKey = async ({media, acpi}: IVirtualMediaKey) => {
+    if (!transport.value) {
+      return
+    }
+    try {
+      if (acpi) {
+        await input.acpi(acpi)
+      } else if (media) {
+        await input.mediaKey(media)
+      }
+    } catch (error: any) {
+      window.$notification({
+        type: 'error',
+        message: error.message,
+        timeout: 3000,
+      })
+    }
+  }
+
+  // Nothing may stay held on the target once the keyboard is gone
+  const releaseAll = async () => {
+    if (!heldKeys.value.length && !modifiers.value) {
+      return
+    }
+    heldKeys.value = []
+    modifierStates.value = {}
+    await sendReport()
+  }
+
+  watch(isKeyboardVisible, (visible) => {
+    if (!visible) {
+      releaseAll()
+    }
+  })
+
+  // Switching sessions already released the held keys on the previous target
+  eventBus.on('kvm_session_switch', () => {
+    heldKeys.value = []
+    modifierStates.value = {}
+  })
+
+  return {
+    isKeyboardVisible,
+    modifierStates,
+    heldKeys,
+    isModifier,
+    toggleModifier,
+    pressKey,
+    releaseKey,
+    pressMediaKey,
+    releaseAll,
+  }
+})
@@ -0,0 +1,197 @@
+import {eventBus} from '@/utils/event-bus'
+import {useSerialState} from '@/components/KBKvmController/utils/serial-state'
+import {sleep} from '@/components/KBKvmController/utils'
+import {
+  CH9329_BAUD_RATES,
+  type Ch9329Reply,
+  CmdType,
+  describeReply,
+  encodeParaConfig,
+  encodeUsbString,
+  genPacket,
+  HID_DATA_MAX_LENGTH,
+  type IChipInfo,
+  type IParaConfig,
+  type IUsbString,
+  isReplyFailed,
+  USB_STRING_ENABLE,
+  usbStringFlag,
+  UsbStringType,
+} from '@/components/KBKvmController/utils/ch9329'
+
+/**
+ * Send a command and wait for the chip to answer it.
+ * Replies are decoded by the read loop of the serial state and dispatched on the event bus.
+ */
+export const sendCommand = (
+  cmd: CmdType,
+  data: number[] = [],
+  timeout = 500,
+): Promise<Ch9329Reply> => {
+  const {transport, writeSerial} = useSerialState()
+  if (!transport.value) {
+    return Promise.reject(new Error('Serial port not initialized'))
+  }
+
+  return new Promise((resolve, reject) => {
+    const listener = (reply: Ch9329Reply) => {
+      if (reply.kind === 'hid' || reply.cmd !== cmd) return
+      clearTimeout(timer)
+      eventBus.off('ch9329_reply', listener)
+      resolve(reply)
+    }
+    const timer = setTimeout(() => {
+      eventBus.off('ch9329_reply', listener)
+      reject(new Error(`No reply to ${CmdType[cmd]} within ${timeout}ms`))
+    }, timeout)
+
+    eventBus.on('ch9329_reply', listener)
+    writeSerial(new Uint8Array(genPacket(cmd, ...data)))?.catch((error) => {
+      clearTimeout(timer)
+      eventBus.off('ch9329_reply', listener)
+      reject(error)
+    })
+  })
+}
+
+export const getChipInfo = async (timeout?: number): Promise<IChipInfo> => {
+  const reply = await sendCommand(CmdType.CMD_GET_INFO, [], timeout)
+  if (reply.kind !== 'info') {
+    throw new Error(`Unexpected reply to CMD_GET_INFO`)
+  }
+  return reply.info
+}
+
+// Resolve when the chip acknowledged the command, reject with the reported status otherwise
+export const sendCommandExpectSuccess = async (
+  cmd: CmdType,
+  data: number[] = [],
+  timeout?: number,
+) => {
+  const reply = await sendCommand(cmd, data, timeout)
+  if (isReplyFailed(reply)) {
+    throw new Error(describeReply(reply))
+  }
+  return reply
+}
+
+export const getParaConfig = async (): Promise<IParaConfig> => {
+  const reply = await sendCommand(CmdType.CMD_GET_PARA_CFG)
+  if (isReplyFailed(reply)) {
+    throw new Error(describeReply(reply))
+  }
+  if (reply.kind !== 'para_cfg') {
+    throw new Error(`Unexpected reply to CMD_GET_PARA_CFG`)
+  }
+  return reply.config
+}
+
+export const setParaConfig = async (config: IParaConfig) => {
+  // 50 bytes take ~60ms to transfer at 9600 baud
+  await sendCommandExpectSuccess(
+    CmdType.CMD_SET_PARA_CFG,
+    encodeParaConfig(config),
+    1000,
+  )
+}
+
+// The new parameters only take effect after the chip restarts
+export const resetChip = async () => {
+  await sendCommandExpectSuccess(CmdType.CMD_RESET)
+}
+
+export const getUsbString = async (type: UsbStringType): Promise<string> => {
+  const reply = await sendCommand(CmdType.CMD_GET_USB_STRING, [type])
+  if (isReplyFailed(reply)) {
+    throw new Error(describeReply(reply))
+  }
+  if (reply.kind !== 'usb_string') {
+    throw new Error(`Unexpected reply to CMD_GET_USB_STRING`)
+  }
+  return reply.usbString.value
+}
+
+/**
+ * Write string descriptors and turn on their flags in the parameter block,
+ * the chip keeps reporting its built-in strings until they are enabled.
+ * Takes effect after the chip is reset.
+ */
+export const setUsbStrings = async (strings: IUsbString[]) => {
+  for (const item of strings) {
+    await sendCommandExpectSuccess(
+      CmdType.CMD_SET_USB_STRING,
+      encodeUsbString(item),
+    )
+  }
+
+  const config = await getParaConfig()
+  let flags = config.usbStringFlags | USB_STRING_ENABLE
+  for (const {type} of strings) flags |= usbStringFlag[type]
+  if (flags !== config.usbStringFlags) {
+    await setParaConfig({...config, usbStringFlags: flags})
+  }
+}
+
+/**
+ * Query the chip until it answers
+ * @returns true if the chip answered CMD_GET_INFO
+ */
+export const probeChip = async (attempts = 10, interval = 300) => {
+  for (let i = 0; i < attempts; i++) {
+    try {
+      await getChipInfo(300)
+      return true
+    } catch (e) {
+      await sleep(interval)
+    }
+  }
+  return false
+}
+
+/**
+ * Reopen the port with each supported baud rate until the chip answers,
+ * starting with the current one. Only a reply with a valid checksum counts.
+ * @param onTry called before the port is reopened with another rate
+ * @returns the baud rate the chip answered at, or 0
+ */
+export const detectBaudRate = async (onTry?: (rate: number) => void) => {
+  const {baudRate, reopenSerial} = useSerialState()
+  const current = baudRate.value
+  const rates = [
+    current,
+    ...CH9329_BAUD_RATES.filter((rate) => rate !== current),
+  ]
+  for (const rate of rates) {
+    if (rate !== baudRate.value) {
+      onTry?.(rate)
+      await reopenSerial(rate)
+    }
+    if (await probeChip(2, 100)) {
+      return rate
+    }
+  }
+  return 0
+}
+
+/**
+ * Send a payload to the agent on the target through the custom HID interface,
+ * split into reports of HID_DATA_MAX_LENGTH bytes
+ */
+export const sendHidData = async (data: ArrayLike<number>) => {
+  const bytes = Array.from(data)
+  for (let i = 0; i < bytes.length; i += HID_DATA_MAX_LENGTH) {
+    await sendCommandExpectSuccess(
+      CmdType.CMD_SEND_MY_HID_DATA,
+      bytes.slice(i, i + HID_DATA_MAX_LENGTH),
+    )
+  }
+}
+
+/**
+ * Listen for reports the target writes to the custom HID interface
+ * @returns a function that removes the listener
+ */
+export const onHidData = (listener: (data: number[]) => void) => {
+  eventBus.on('ch9329_hid_data', listener)
+  return () => eventBus.off('ch9329_hid_data', listener)
+}
@@ -32,15 +32,31 @@ export enum CmdType {
   CMD_RESET = 0x0f,
 }
 
-export const genPacket = (cmd: CmdType, ...data: any[]) => {
+// Factory address of the chip, also used when only one chip is on the port
+export const DEFAULT_CHIP_ADDRESS = 0x00
+// Every chip on the bus executes frames sent to it without replying
+export const BROADCAST_CHIP_ADDRESS = 0xff
+
+export const isValidChipAddress = (addr: number) => {
+  return Number.isInteger(addr) && addr >= 0x00 && addr < BROADCAST_CHIP_ADDRESS
+}
+
+/**
+ * Frame for the chip with the given address code, several chips can share one RS-485/TTL bus
+ */
+export const genAddressedPacket = (
+  addr: number,
+  cmd: CmdType,
+  ...data: any[]
+) => {
   // console.log(data)
-  for (const v of data) if (v < 0 || v > 0xff) throw v
+  for (const v of [addr, ...data]) if (v < 0 || v > 0xff) throw v
   const ret = [
     // Frame header: 2 bytes, fixed as 0x57, 0xAB
     0x57,
     0xab,
     // Address code: 1 byte, default 0x00
-    0x00,
+    addr,
     // Command code
     cmd,
     // Following data length
@@ -56,6 +72,401 @@ export const genPacket = (cmd: CmdType, ...data: any[]) => {
   return ret
 }
 
+// Frames are readdressed to the chip of the session when they are written
+export const genPacket = (cmd: CmdType, ...data: any[]) => {
+  return genAddressedPacket(DEFAULT_CHIP_ADDRESS, cmd, ...data)
+}
+
+// Status byte carried by command replies
+export enum ReplyStatus {
+  // Command executed successfully
+  SUCCESS = 0x00,
+  // Serial port receive one byte timeout
+  ERR_TIMEOUT = 0xe1,
+  // Serial port receive packet header byte error
+  ERR_HEAD = 0xe2,
+  // Serial port receive command code error
+  ERR_CMD = 0xe3,
+  // Checksum mismatch
+  ERR_SUM = 0xe4,
+  // Parameter error
+  ERR_PARA = 0xe5,
+  // Frame is normal, but the execution failed
+  ERR_OPERATE = 0xe6,
+}
+
+export const replyStatusText: Record<number, string> = {
+  [ReplyStatus.SUCCESS]: 'success',
+  [ReplyStatus.ERR_TIMEOUT]: 'receive timeout',
+  [ReplyStatus.ERR_HEAD]: 'frame header error',
+  [ReplyStatus.ERR_CMD]: 'command code error',
+  [ReplyStatus.ERR_SUM]: 'checksum error',
+  [ReplyStatus.ERR_PARA]: 'parameter error',
+  [ReplyStatus.ERR_OPERATE]: 'operation failed',
+}
+
+// Reply command code: cmd | 0x80 on success, cmd | 0xC0 on error
+const REPLY_OK = 0x80
+const REPLY_ERROR = 0xc0
+
+// Longest DATA field the chip sends (custom HID reports are up to 64 bytes)
+const MAX_DATA_LENGTH = 64
+
+export interface ICh9329Frame {
+  addr: number
+  // Raw command code as received, including the reply bits
+  cmd: number
+  data: number[]
+}
+
+export interface IChipInfo {
+  // Firmware version, e.g. 0x30 -> 'V1.0'
+  version: string
+  // Whether the target has enumerated the chip's USB device
+  usbEnumerated: boolean
+  numLock: boolean
+  capsLock: boolean
+  scrollLock: boolean
+}
+
+// Chip work mode, values from 0x80 are selected by the MODE pins instead of software
+export enum ChipWorkMode {
+  // Keyboard + mouse + custom HID
+  KB_MS_HID = 0x00,
+  KEYBOARD = 0x01,
+  MOUSE = 0x02,
+  CUSTOM_HID = 0x03,
+}
+
+// Serial communication mode, values from 0x80 are selected by the CFG pins
+export enum SerialMode {
+  // Protocol transmission mode, the only one this app speaks
+  PROTOCOL = 0x00,
+  ASCII = 0x01,
+  TRANSPARENT = 0x02,
+}
+
+// Baud rates accepted by the chip
+export const CH9329_BAUD_RATES = [
+  1200, 2400, 4800, 9600, 14400, 19200, 38400, 57600, 115200,
+]
+
+// Size of the parameter block of CMD_GET_PARA_CFG / CMD_SET_PARA_CFG
+export const PARA_CFG_LENGTH = 50
+// Report size of the custom HID interface, longer payloads are split into several reports
+export const HID_DATA_MAX_LENGTH = 64
+
+export interface IParaConfig {
+  workMode: number
+  serialMode: number
+  // Serial address code, 0x00 ~ 0xFE
+  address: number
+  baudRate: number
+  // Serial packet interval in ms
+  packetInterval: number
+  vid: number
+  pid: number
+  // ASCII mode keyboard upload interval in ms
+  asciiUploadInterval: number
+  // ASCII mode keyboard release delay in ms
+  asciiReleaseDelay: number
+  asciiAutoEnter: number
+  // bit7: enable custom string descriptors, bit2: manufacturer, bit1: product, bit0: serial number
+  usbStringFlags: number
+  // The complete block, fields above are applied on top of it when encoding
+  raw: number[]
+}
+
+export enum UsbStringType {
+  MANUFACTURER = 0x00,
+  PRODUCT = 0x01,
+  SERIAL_NUMBER = 0x02,
+}
+
+// Longest string descriptor the chip stores
+export const USB_STRING_MAX_LENGTH = 23
+
+// Bits of IParaConfig.usbStringFlags
+export const USB_STRING_ENABLE = 0x80
+export const usbStringFlag: Record<UsbStringType, number> = {
+  [UsbStringType.MANUFACTURER]: 0b100,
+  [UsbStringType.PRODUCT]: 0b010,
+  [UsbStringType.SERIAL_NUMBER]: 0b001,
+}
+
+export interface IUsbString {
+  type: UsbStringType
+  value: string
+}
+
+export type Ch9329Reply =
+  | {kind: 'info'; addr: number; cmd: CmdType.CMD_GET_INFO; info: IChipInfo}
+  | {
+      kind: 'para_cfg'
+      addr: number
+      cmd: CmdType.CMD_GET_PARA_CFG
+      config: IParaConfig
+    }
+  | {kind: 'status'; addr: number; cmd: CmdType; status: ReplyStatus}
+  | {
+      kind: 'usb_string'
+      addr: number
+      cmd: CmdType.CMD_GET_USB_STRING
+      usbString: IUsbString
+    }
+  | {kind: 'data'; addr: number; cmd: CmdType; data: number[]}
+  | {
+      kind: 'hid'
+      addr: number
+      cmd: CmdType.CMD_READ_MY_HID_DATA
+      data: number[]
+    }
+  | {kind: 'error'; addr: number; cmd: CmdType; status: ReplyStatus}
+
+export const checksum = (bytes: ArrayLike<number>) => {
+  let sum = 0
+  for (let i = 0; i < bytes.length; i++) sum = (sum + bytes[i]) & 0xff
+  return sum
+}
+
+// Bytes of a frame as sent on the wire
+export const encodeFrame = ({addr, cmd, data}: ICh9329Frame) => {
+  const bytes = [0x57, 0xab, addr, cmd, data.length, ...data]
+  return [...bytes, checksum(bytes)]
+}
+
+/**
+ * Streaming decoder for frames sent back by the chip.
+ * Serial reads may split or merge frames at any byte, so input is buffered
+ * until a complete frame with a valid checksum is available.
+ */
+export class Ch9329FrameDecoder {
+  private buffer: number[] = []
+  // Number of frames dropped because of a bad checksum or length
+  droppedFrames = 0
+  // Number of valid frames dropped because they came from another chip on the bus
+  foreignFrames = 0
+  // Address codes to accept, null accepts every address
+  acceptAddress: ((addr: number) => boolean) | null
+
+  constructor({
+    acceptAddress = null,
+  }: {acceptAddress?: ((addr: number) => boolean) | null} = {}) {
+    this.acceptAddress = acceptAddress
+  }
+
+  push(chunk: ArrayLike<number>): ICh9329Frame[] {
+    for (let i = 0; i < chunk.length; i++) this.buffer.push(chunk[i])
+
+    const frames: ICh9329Frame[] = []
+    while (this.buffer.length) {
+      const start = this.findHeader()
+      if (start === -1) {
+        // Keep a trailing 0x57, it may be the first half of the next header
+        this.buffer = this.buffer[this.buffer.length - 1] === 0x57 ? [0x57] : []
+        break
+      }
+      if (start > 0) this.buffer.splice(0, start)
+      // HEAD(2) + ADDR + CMD + LEN
+      if (this.buffer.length < 5) break
+
+      const length = this.buffer[4]
+      if (length > MAX_DATA_LENGTH) {
+        this.droppedFrames++
+        this.buffer.splice(0, 2)
+        continue
+      }
+      const total = 5 + length + 1
+      if (this.buffer.length < total) break
+
+      const frame = this.buffer.slice(0, total)
+      if (checksum(frame.slice(0, -1)) !== frame[total - 1]) {
+        // Resync on the next header candidate
+        this.droppedFrames++
+        this.buffer.splice(0, 2)
+        continue
+      }
+      this.buffer.splice(0, total)
+      if (this.acceptAddress && !this.acceptAddress(frame[2])) {
+        this.foreignFrames++
+        continue
+      }
+      frames.push({addr: frame[2], cmd: frame[3], data: frame.slice(5, -1)})
+    }
+    return frames
+  }
+
+  reset() {
+    this.buffer = []
+  }
+
+  private findHeader() {
+    for (let i = 0; i < this.buffer.length - 1; i++) {
+      if (this.buffer[i] === 0x57 && this.buffer[i + 1] === 0xab) return i
+    }
+    return -1
+  }
+}
+
+const decodeChipInfo = (data: number[]): IChipInfo => {
+  const [version = 0, usbStatus = 0, leds = 0] = data
+  return {
+    version: `V${(version >> 4) - 2}.${version & 0x0f}`,
+    usbEnumerated: usbStatus === 0x01,
+    numLock: Boolean(leds & 0b001),
+    capsLock: Boolean(leds & 0b010),
+    scrollLock: Boolean(leds & 0b100),
+  }
+}
+
+const readU16BE = (data: number[], i: number) => (data[i] << 8) | data[i + 1]
+const readU16LE = (data: number[], i: number) => data[i] | (data[i + 1] << 8)
+const writeU16BE = (data: number[], i: number, v: number) => {
+  data[i] = (v >> 8) & 0xff
+  data[i + 1] = v & 0xff
+}
+const writeU16LE = (data: number[], i: number, v: number) => {
+  data[i] = v & 0xff
+  data[i + 1] = (v >> 8) & 0xff
+}
+
+/**
+ * Decode the 50-byte parameter block
+ * Multi-byte values are big endian, except VID/PID which are little endian
+ */
+export const decodeParaConfig = (data: number[]): IParaConfig => {
+  if (data.length !== PARA_CFG_LENGTH) {
+    throw new Error(`Invalid parameter block length: ${data.length}`)
+  }
+  return {
+    workMode: data[0],
+    serialMode: data[1],
+    address: data[2],
+    baudRate:
+      ((data[3] << 24) | (data[4] << 16) | (data[5] << 8) | data[6]) >>> 0,
+    packetInterval: readU16BE(data, 9),
+    vid: readU16LE(data, 11),
+    pid: readU16LE(data, 13),
+    asciiUploadInterval: readU16BE(data, 15),
+    asciiReleaseDelay: readU16BE(data, 17),
+    asciiAutoEnter: data[19],
+    usbStringFlags: data[36],
+    raw: [...data],
+  }
+}
+
+export const encodeParaConfig = (config: IParaConfig): number[] => {
+  const data = [...config.raw]
+  if (data.length !== PARA_CFG_LENGTH) {
+    throw new Error(`Invalid parameter block length: ${data.length}`)
+  }
+  data[0] = config.workMode & 0xff
+  data[1] = config.serialMode & 0xff
+  data[2] = config.address & 0xff
+  data[3] = (config.baudRate >>> 24) & 0xff
+  data[4] = (config.baudRate >>> 16) & 0xff
+  data[5] = (config.baudRate >>> 8) & 0xff
+  data[6] = config.baudRate & 0xff
+  writeU16BE(data, 9, config.packetInterval)
+  writeU16LE(data, 11, config.vid)
+  writeU16LE(data, 13, config.pid)
+  writeU16BE(data, 15, config.asciiUploadInterval)
+  writeU16BE(data, 17, config.asciiReleaseDelay)
+  data[19] = config.asciiAutoEnter & 0xff
+  data[36] = config.usbStringFlags & 0xff
+  return data
+}
+
+// Returns an error message, or an empty string if the value can be stored by the chip
+export const validateUsbString = (value: string) => {
+  if (value.length > USB_STRING_MAX_LENGTH) {
+    return `At most ${USB_STRING_MAX_LENGTH} characters are allowed`
+  }
+  if (!/^[\x20-\x7e]*$/.test(value)) {
+    return 'Only printable ASCII characters are allowed'
+  }
+  return ''
+}
+
+// DATA of CMD_SET_USB_STRING: type, length, string bytes
+export const encodeUsbString = ({type, value}: IUsbString): number[] => {
+  const error = validateUsbString(value)
+  if (error) {
+    throw new Error(error)
+  }
+  return [type, value.length, ...Array.from(value, (c) => c.charCodeAt(0))]
+}
+
+// DATA of the CMD_GET_USB_STRING reply: type, length, string bytes
+export const decodeUsbString = (data: number[]): IUsbString => {
+  const [type, length = 0] = data
+  return {
+    type,
+    value: String.fromCharCode(...data.slice(2, 2 + length)),
+  }
+}
+
+// Map a decoded frame to a typed reply
+export const parseReply = ({addr, cmd, data}: ICh9329Frame): Ch9329Reply => {
+  // Sent by the chip on its own when the target writes to the custom HID interface
+  if (cmd === CmdType.CMD_READ_MY_HID_DATA) {
+    return {kind: 'hid', addr, cmd, data}
+  }
+  if ((cmd & REPLY_ERROR) === REPLY_ERROR) {
+    return {
+      kind: 'error',
+      addr,
+      cmd: cmd & ~REPLY_ERROR,
+      status: data[0] ?? ReplyStatus.ERR_OPERATE,
+    }
+  }
+  const request = cmd & ~REPLY_OK
+  switch (request) {
+    case CmdType.CMD_GET_INFO:
+      return {kind: 'info', addr, cmd: request, info: decodeChipInfo(data)}
+    case CmdType.CMD_GET_PARA_CFG:
+      if (data.length !== PARA_CFG_LENGTH) {
+        return {kind: 'data', addr, cmd: request, data}
+      }
+      return {
+        kind: 'para_cfg',
+        addr,
+        cmd: request,
+        config: decodeParaConfig(data),
+      }
+    case CmdType.CMD_GET_USB_STRING:
+      return {
+        kind: 'usb_string',
+        addr,
+        cmd: request,
+        usbString: decodeUsbString(data),
+      }
+    default:
+      return {
+        kind: 'status',
+        addr,
+        cmd: request,
+        status: data[0] ?? ReplyStatus.SUCCESS,
+      }
+  }
+}
+
+// Whether a reply reports a failure, either as an error frame or a bad status byte
+export const isReplyFailed = (reply: Ch9329Reply) => {
+  return (
+    reply.kind === 'error' ||
+    (reply.kind === 'status' && reply.status !== ReplyStatus.SUCCESS)
+  )
+}
+
+export const describeReply = (reply: Ch9329Reply) => {
+  const name = CmdType[reply.cmd] || `0x${reply.cmd.toString(16)}`
+  if (reply.kind === 'error' || reply.kind === 'status') {
+    return `${name}: ${replyStatusText[reply.status] || `status 0x${reply.status.toString(16)}`}`
+  }
+  return name
+}
+
 // clamp to int8
 export const i8clamp = (v: number) => Math.max(-0x7f, Math.min(v, 0x7f))
 
@@ -0,0 +1,40 @@
+import {toHex} from '@/components/KBKvmController/utils/traffic-log'
+
+export type HidPayloadFormat = 'hex' | 'text'
+
+/**
+ * Parse the payload typed into the HID console
+ * Hex accepts bytes separated by spaces or written together, e.g. "01 FF" or "01ff"
+ * @throws Error if the hex payload is malformed
+ */
+export const encodeHidPayload = (
+  input: string,
+  format: HidPayloadFormat,
+): number[] => {
+  if (format === 'text') {
+    return Array.from(new TextEncoder().encode(input))
+  }
+  const hex = input.replace(/0x/gi, '').replace(/[\s,]/g, '')
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error('Invalid hex payload, expected pairs of hex digits')
+  }
+  return hex.match(/../g)?.map((b) => parseInt(b, 16)) ?? []
+}
+
+// Control characters other than tab and newline are shown as dots
+const isPrintableByte = (b: number) => b >= 0x20 || b === 0x09 || b === 0x0a
+
+export const decodeHidPayload = (data: number[]) => {
+  // Reports are zero padded to the report size
+  let end = data.length
+  while (end > 0 && data[end - 1] === 0) {
+    end--
+  }
+  const printable = data
+    .slice(0, end)
+    .map((b) => (b === 0x7f || !isPrintableByte(b) ? 0x2e : b))
+  return {
+    hex: toHex(data),
+    text: new TextDecoder().decode(new Uint8Array(printable)),
+  }
+}
@@ -95,4 +95,15 @@ export const copy = async (val, isShowVal = true) => {
   })
 }
 
+// True while the user types in a form field, the hidden composition target of the KVM input aside
+export const isEditingField = () => {
+  const active = document.activeElement as HTMLElement | null
+  return (
+    !!active &&
+    !active.classList.contains('composition-target') &&
+    (['INPUT', 'TEXTAREA', 'SELECT'].includes(active.tagName) ||
+      active.isContentEditable)
+  )
+}
+
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
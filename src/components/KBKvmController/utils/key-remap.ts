@@ -0,0 +1,73 @@
+import type {IRemapRule} from '@/stores/remapProfiles'
+import {KEY_CODES} from '@/components/KBKvmController/utils/keys-enum'
+import {
+  type IKeyCombo,
+  MODIFIER_CODES,
+  parseKeyCombo,
+} from '@/components/KBKvmController/utils/kvm-input'
+
+/**
+ * Parse what a remapped key sends: a key ("ESCAPE"), a modifier ("CTRL") or a combo ("CTRL+C")
+ * Targets are physical keys, so characters are read on a US keyboard.
+ * @returns null if the target is not a valid combo
+ */
+export const parseRemapTarget = (to: string): IKeyCombo | null => {
+  try {
+    return parseKeyCombo(to)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Remapping profile ready for lookups
+ * Live capture looks keys up by KeyboardEvent.code, macro combos by HID usage and modifier bit.
+ * Rules with an unknown source key or an invalid target are ignored.
+ */
+export class KeyRemap {
+  private readonly byCode = new Map<string, IKeyCombo>()
+  private readonly byHidCode = new Map<number, IKeyCombo>()
+  private readonly byModifier = new Map<number, IKeyCombo>()
+
+  constructor(rules: IRemapRule[]) {
+    for (const {from, to} of rules) {
+      const target = parseRemapTarget(to)
+      if (!target || !KEY_CODES.has(from)) {
+        continue
+      }
+      this.byCode.set(from, target)
+      const modifier = MODIFIER_CODES[from]
+      if (modifier) {
+        this.byModifier.set(modifier, target)
+      } else {
+        this.byHidCode.set(KEY_CODES.get(from)!, target)
+      }
+    }
+  }
+
+  // What a physical key sends instead, undefined if the profile leaves it alone
+  key(code: string) {
+    return this.byCode.get(code)
+  }
+
+  // Remap the modifiers and the key of a combo, e.g. CMD+C to CTRL+C
+  combo({modifiers, hidCode}: IKeyCombo): IKeyCombo {
+    const result: IKeyCombo = {modifiers: 0, hidCode}
+    for (let bit = 0x01; bit <= 0x80; bit <<= 1) {
+      if (!(modifiers & bit)) {
+        continue
+      }
+      const target = this.byModifier.get(bit)
+      result.modifiers |= target ? target.modifiers : bit
+      if (target?.hidCode && !result.hidCode) {
+        result.hidCode = target.hidCode
+      }
+    }
+    const keyTarget = hidCode ? this.byHidCode.get(hidCode) : undefined
+    if (keyTarget) {
+      result.modifiers |= keyTarget.modifiers
+      result.hidCode = keyTarget.hidCode
+    }
+    return result
+  }
+}
@@ -0,0 +1,236 @@
+import {KEY_CODES} from '@/components/KBKvmController/utils/keys-enum'
+
+// Modifier bits used by the layouts, AltGr is the right Alt key
+const SHIFT = 0x02
+const ALT_GR = 0x40
+
+export interface ILayoutKey {
+  hidCode: number
+  modifiers: number
+  // Dead keys only print their character when followed by a space
+  dead: boolean
+}
+
+export type KeyboardLayout = Map<string, ILayoutKey>
+
+interface ILayoutDefinition {
+  label: string
+  // Characters of each physical key: plain, with Shift, with AltGr
+  keys: Record<string, string[]>
+  deadKeys?: string
+}
+
+// Letter keys typing the letter printed on a US keyboard
+const qwertyLetters = () => {
+  const keys: Record<string, string[]> = {}
+  for (const letter of 'abcdefghijklmnopqrstuvwxyz') {
+    keys[`Key${letter.toUpperCase()}`] = [letter, letter.toUpperCase()]
+  }
+  return keys
+}
+
+const US_KEYS: Record<string, string[]> = {
+  ...qwertyLetters(),
+  Backquote: ['`', '~'],
+  Digit1: ['1', '!'],
+  Digit2: ['2', '@'],
+  Digit3: ['3', '#'],
+  Digit4: ['4', '$'],
+  Digit5: ['5', '%'],
+  Digit6: ['6', '^'],
+  Digit7: ['7', '&'],
+  Digit8: ['8', '*'],
+  Digit9: ['9', '('],
+  Digit0: ['0', ')'],
+  Minus: ['-', '_'],
+  Equal: ['=', '+'],
+  BracketLeft: ['[', '{'],
+  BracketRight: [']', '}'],
+  Backslash: ['\\', '|'],
+  Semicolon: [';', ':'],
+  Quote: ["'", '"'],
+  Comma: [',', '<'],
+  Period: ['.', '>'],
+  Slash: ['/', '?'],
+}
+
+const LAYOUTS: Record<string, ILayoutDefinition> = {
+  us: {
+    label: 'English (US)',
+    keys: US_KEYS,
+  },
+  uk: {
+    label: 'English (UK)',
+    keys: {
+      ...US_KEYS,
+      Backquote: ['`', '¬', '¦'],
+      Digit2: ['2', '"'],
+      Digit3: ['3', '£'],
+      Digit4: ['4', '$', '€'],
+      Quote: ["'", '@'],
+      Backslash: ['#', '~'],
+      IntlBackslash: ['\\', '|'],
+    },
+  },
+  de: {
+    label: 'German (QWERTZ)',
+    keys: {
+      ...qwertyLetters(),
+      KeyY: ['z', 'Z'],
+      KeyZ: ['y', 'Y'],
+      KeyQ: ['q', 'Q', '@'],
+      KeyE: ['e', 'E', '€'],
+      KeyM: ['m', 'M', 'µ'],
+      Backquote: ['^', '°'],
+      Digit1: ['1', '!'],
+      Digit2: ['2', '"', '²'],
+      Digit3: ['3', '§', '³'],
+      Digit4: ['4', '$'],
+      Digit5: ['5', '%'],
+      Digit6: ['6', '&'],
+      Digit7: ['7', '/', '{'],
+      Digit8: ['8', '(', '['],
+      Digit9: ['9', ')', ']'],
+      Digit0: ['0', '=', '}'],
+      Minus: ['ß', '?', '\\'],
+      Equal: ['´', '`'],
+      BracketLeft: ['ü', 'Ü'],
+      BracketRight: ['+', '*', '~'],
+      Semicolon: ['ö', 'Ö'],
+      Quote: ['ä', 'Ä'],
+      Backslash: ['#', "'"],
+      IntlBackslash: ['<', '>', '|'],
+      Comma: [',', ';'],
+      Period: ['.', ':'],
+      Slash: ['-', '_'],
+    },
+    deadKeys: '^´`',
+  },
+  fr: {
+    label: 'French (AZERTY)',
+    keys: {
+      ...qwertyLetters(),
+      KeyQ: ['a', 'A'],
+      KeyW: ['z', 'Z'],
+      KeyA: ['q', 'Q'],
+      KeyZ: ['w', 'W'],
+      KeyE: ['e', 'E', '€'],
+      Semicolon: ['m', 'M'],
+      Backquote: ['²'],
+      Digit1: ['&', '1'],
+      Digit2: ['é', '2', '~'],
+      Digit3: ['"', '3', '#'],
+      Digit4: ["'", '4', '{'],
+      Digit5: ['(', '5', '['],
+      Digit6: ['-', '6', '|'],
+      Digit7: ['è', '7', '`'],
+      Digit8: ['_', '8', '\\'],
+      Digit9: ['ç', '9', '^'],
+      Digit0: ['à', '0', '@'],
+      Minus: [')', '°', ']'],
+      Equal: ['=', '+', '}'],
+      BracketLeft: ['^', '¨'],
+      BracketRight: ['$', '£', '¤'],
+      Quote: ['ù', '%'],
+      Backslash: ['*', 'µ'],
+      IntlBackslash: ['<', '>'],
+      KeyM: [',', '?'],
+      Comma: [';', '.'],
+      Period: [':', '/'],
+      Slash: ['!', '§'],
+    },
+    deadKeys: '~`^¨',
+  },
+  dvorak: {
+    label: 'Dvorak (US)',
+    keys: {
+      ...US_KEYS,
+      Minus: ['[', '{'],
+      Equal: [']', '}'],
+      KeyQ: ["'", '"'],
+      KeyW: [',', '<'],
+      KeyE: ['.', '>'],
+      KeyR: ['p', 'P'],
+      KeyT: ['y', 'Y'],
+      KeyY: ['f', 'F'],
+      KeyU: ['g', 'G'],
+      KeyI: ['c', 'C'],
+      KeyO: ['r', 'R'],
+      KeyP: ['l', 'L'],
+      BracketLeft: ['/', '?'],
+      BracketRight: ['=', '+'],
+      KeyS: ['o', 'O'],
+      KeyD: ['e', 'E'],
+      KeyF: ['u', 'U'],
+      KeyG: ['i', 'I'],
+      KeyH: ['d', 'D'],
+      KeyJ: ['h', 'H'],
+      KeyK: ['t', 'T'],
+      KeyL: ['n', 'N'],
+      Semicolon: ['s', 'S'],
+      Quote: ['-', '_'],
+      KeyZ: [';', ':'],
+      KeyX: ['q', 'Q'],
+      KeyC: ['j', 'J'],
+      KeyV: ['k', 'K'],
+      KeyB: ['x', 'X'],
+      KeyN: ['b', 'B'],
+      Comma: ['w', 'W'],
+      Period: ['v', 'V'],
+      Slash: ['z', 'Z'],
+    },
+  },
+}
+
+export const DEFAULT_KEYBOARD_LAYOUT = 'us'
+
+export const KEYBOARD_LAYOUT_OPTIONS = Object.entries(LAYOUTS).map(
+  ([value, {label}]) => ({value, label}),
+)
+
+// Characters typed the same way on every layout
+const COMMON_KEYS: [string, string][] = [
+  ['\n', 'Enter'],
+  ['\t', 'Tab'],
+  ['\b', 'Backspace'],
+  [' ', 'Space'],
+]
+
+const buildLayout = ({keys, deadKeys = ''}: ILayoutDefinition) => {
+  const layout: KeyboardLayout = new Map()
+  for (const [char, code] of COMMON_KEYS) {
+    layout.set(char, {hidCode: KEY_CODES.get(code)!, modifiers: 0, dead: false})
+  }
+  // Level by level, so a character on two keys is typed with the fewest modifiers,
+  // e.g. ^ on fr goes to the plain dead key right of P, not to AltGr+9
+  const levels = [0, SHIFT, ALT_GR]
+  levels.forEach((modifiers, level) => {
+    for (const [code, chars] of Object.entries(keys)) {
+      const char = chars[level]
+      if (char && !layout.has(char)) {
+        layout.set(char, {
+          hidCode: KEY_CODES.get(code)!,
+          modifiers,
+          dead: deadKeys.includes(char),
+        })
+      }
+    }
+  })
+  return layout
+}
+
+const layoutCache = new Map<string, KeyboardLayout>()
+
+/**
+ * Character to key table of a target keyboard layout
+ * Unknown ids fall back to the US layout
+ */
+export const getKeyboardLayout = (id: string) => {
+  const layoutId = id in LAYOUTS ? id : DEFAULT_KEYBOARD_LAYOUT
+  let layout = layoutCache.get(layoutId)
+  if (!layout) {
+    layout = buildLayout(LAYOUTS[layoutId])
+    layoutCache.set(layoutId, layout)
+  }
+  return layout
+}
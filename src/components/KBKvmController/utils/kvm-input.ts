@@ -0,0 +1,620 @@
+import {
+  CmdType,
+  decomposeHexToBytes,
+  genPacket,
+  i8clamp,
+  indexToBinary,
+  MediaKey,
+  mediaKeyMatrix,
+} from '@/components/KBKvmController/utils/ch9329'
+import {
+  ASCII_KEYS,
+  KEY_CODES,
+} from '@/components/KBKvmController/utils/keys-enum'
+import {
+  DEFAULT_KEYBOARD_LAYOUT,
+  getKeyboardLayout,
+  type KeyboardLayout,
+} from '@/components/KBKvmController/utils/keyboard-layouts'
+import {
+  type IUnicodeSequence,
+  unicodeSequence,
+} from '@/components/KBKvmController/utils/unicode-input'
+import type {KeyRemap} from '@/components/KBKvmController/utils/key-remap'
+import {sleep} from '@/components/KBKvmController/utils'
+
+// Bits of the modifier byte of keyboard reports
+export enum KeyModifier {
+  CTRL = 0x01,
+  SHIFT = 0x02,
+  ALT = 0x04,
+  META = 0x08,
+  RIGHT_CTRL = 0x10,
+  RIGHT_SHIFT = 0x20,
+  RIGHT_ALT = 0x40,
+  RIGHT_META = 0x80,
+}
+
+// Bits of the button byte of mouse reports
+export enum MouseButton {
+  LEFT = 0x01,
+  RIGHT = 0x02,
+  MIDDLE = 0x04,
+}
+
+// ACPI keys, sent with report ID 0x01 of CMD_SEND_KB_MEDIA_DATA
+export enum AcpiKey {
+  POWER = 0x01,
+  SLEEP = 0x02,
+  WAKE_UP = 0x04,
+}
+
+// Absolute mouse coordinates range from 0 to ABS_MOUSE_MAX on both axes
+export const ABS_MOUSE_MAX = 4095
+
+// Keys held at once in a keyboard report
+const REPORT_KEY_SLOTS = 6
+
+// Usage code filling every key slot when more keys are held than the report can carry
+const KEY_ERROR_ROLLOVER = 0x01
+
+// KeyboardEvent.code of the modifier keys, each side has its own bit
+export const MODIFIER_CODES: Record<string, KeyModifier> = {
+  ControlLeft: KeyModifier.CTRL,
+  ShiftLeft: KeyModifier.SHIFT,
+  AltLeft: KeyModifier.ALT,
+  MetaLeft: KeyModifier.META,
+  ControlRight: KeyModifier.RIGHT_CTRL,
+  ShiftRight: KeyModifier.RIGHT_SHIFT,
+  AltRight: KeyModifier.RIGHT_ALT,
+  MetaRight: KeyModifier.RIGHT_META,
+  OSLeft: KeyModifier.META,
+  OSRight: KeyModifier.RIGHT_META,
+}
+
+const MODIFIER_NAMES: Record<string, KeyModifier> = {
+  CTRL: KeyModifier.CTRL,
+  CONTROL: KeyModifier.CTRL,
+  SHIFT: KeyModifier.SHIFT,
+  ALT: KeyModifier.ALT,
+  META: KeyModifier.META,
+  WIN: KeyModifier.META,
+  CMD: KeyModifier.META,
+  RIGHT_CTRL: KeyModifier.RIGHT_CTRL,
+  RIGHT_SHIFT: KeyModifier.RIGHT_SHIFT,
+  RIGHT_ALT: KeyModifier.RIGHT_ALT,
+  ALTGR: KeyModifier.RIGHT_ALT,
+  RIGHT_META: KeyModifier.RIGHT_META,
+}
+
+// Short names accepted in key combos besides the KeyboardEvent.key names
+const KEY_ALIASES: Record<string, string> = {
+  ESC: 'ESCAPE',
+  DEL: 'DELETE',
+  RIGHT: 'ARROWRIGHT',
+  LEFT: 'ARROWLEFT',
+  DOWN: 'ARROWDOWN',
+  UP: 'ARROWUP',
+  INS: 'INSERT',
+  PGUP: 'PAGEUP',
+  PGDN: 'PAGEDOWN',
+  PRTSC: 'PRINTSCREEN',
+  MENU: 'CONTEXTMENU',
+}
+
+// Upper case key names like ENTER, F4 or NUMPAD5, built from the named entries of ASCII_KEYS
+// and the physical key codes
+const NAMED_KEYS = new Map<string, number>()
+for (const [code, hidCode] of KEY_CODES) {
+  NAMED_KEYS.set(code.toUpperCase(), hidCode)
+}
+for (const [name, [hidCode]] of ASCII_KEYS) {
+  if (typeof name === 'string' && name.length > 1) {
+    NAMED_KEYS.set(name.toUpperCase(), hidCode as number)
+  }
+}
+
+export interface IKeyCombo {
+  modifiers: number
+  // 0 for a combo of modifiers only
+  hidCode: number
+}
+
+/**
+ * HID usage code of a key name or printable character, case insensitive
+ * Characters are looked up on the given target layout, US if none
+ * @returns 0 if the key is unknown
+ */
+export const keyNameToHidCode = (key: string, layout?: KeyboardLayout) => {
+  if (key.length === 1) {
+    if (layout) {
+      const layoutKey = layout.get(key.toLowerCase()) ?? layout.get(key)
+      return layoutKey?.hidCode ?? 0
+    }
+    const keyData = ASCII_KEYS.get(key) ?? ASCII_KEYS.get(key.toLowerCase())
+    return keyData ? (keyData[0] as number) : 0
+  }
+  const name = key.toUpperCase()
+  return NAMED_KEYS.get(KEY_ALIASES[name] ?? name) ?? 0
+}
+
+/**
+ * Parse a key combo like "CTRL+ALT+DEL", "Shift+Tab" or "ALT+SHIFT"
+ * @throws Error if a part of the combo is not a known key
+ */
+export const parseKeyCombo = (
+  combo: string,
+  layout?: KeyboardLayout,
+): IKeyCombo => {
+  // "CTRL++" presses the plus key
+  const parts = combo
+    .trim()
+    .replace(/\+\+$/, '+PLUS')
+    .split('+')
+    .map((p) => p.trim())
+  let modifiers = 0
+  let hidCode = 0
+  for (const part of parts) {
+    const modifier = MODIFIER_NAMES[part.toUpperCase()]
+    if (modifier) {
+      modifiers |= modifier
+      continue
+    }
+    hidCode = keyNameToHidCode(part === 'PLUS' ? '+' : part, layout)
+    if (!hidCode) {
+      throw new Error(`Unknown key command: ${combo}`)
+    }
+  }
+  if (!modifiers && !hidCode) {
+    throw new Error(`Unknown key command: ${combo}`)
+  }
+  return {modifiers, hidCode}
+}
+
+const toInt8Byte = (v: number) => (v < 0 ? (0x100 + v) & 0xff : v)
+
+export interface ITypeResult {
+  // Characters without a key on the target layout
+  skipped: string[]
+  // Messages of the commands that could not be run
+  errors: string[]
+}
+
+export type KvmWrite = (data: Uint8Array) => Promise<void> | undefined
+
+export interface IKvmInputWriters {
+  // Keyboard, media and ACPI reports
+  writeKeyboard: KvmWrite
+  // Mouse reports, kept apart so keyboard input can be mirrored on its own
+  writeMouse: KvmWrite
+}
+
+// The modifier flags of a KeyboardEvent with the bits of their left and right keys
+const MODIFIER_SIDES: [keyof KeyboardEvent, KeyModifier, KeyModifier][] = [
+  ['ctrlKey', KeyModifier.CTRL, KeyModifier.RIGHT_CTRL],
+  ['shiftKey', KeyModifier.SHIFT, KeyModifier.RIGHT_SHIFT],
+  ['altKey', KeyModifier.ALT, KeyModifier.RIGHT_ALT],
+  ['metaKey', KeyModifier.META, KeyModifier.RIGHT_META],
+]
+
+/**
+ * What a physical key sends without remapping, a modifier bit or a key slot
+ * @param code KeyboardEvent.code
+ */
+export const physicalKeyCombo = (code: string): IKeyCombo | undefined => {
+  const modifier = MODIFIER_CODES[code]
+  if (modifier) {
+    return {modifiers: modifier, hidCode: 0}
+  }
+  const hidCode = KEY_CODES.get(code)
+  return hidCode ? {modifiers: 0, hidCode} : undefined
+}
+
+/**
+ * Whether a key event is the given combo, a modifier of either side matches its left bit
+ */
+export const isComboEvent = (
+  event: KeyboardEvent,
+  {modifiers, hidCode}: IKeyCombo,
+) => {
+  let eventModifiers = 0
+  for (const [flag, left] of MODIFIER_SIDES) {
+    if (event[flag]) {
+      eventModifiers |= left
+    }
+  }
+  const comboModifiers = (modifiers | (modifiers >> 4)) & 0x0f
+  return (
+    physicalKeyCombo(event.code)?.hidCode === hidCode &&
+    eventModifiers === comboModifiers
+  )
+}
+
+/**
+ * Keys held on the local keyboard during live capture
+ * Tracked by KeyboardEvent.code, so a key is released by the same physical key
+ * that pressed it even if the modifiers changed its KeyboardEvent.key meanwhile.
+ * Each key keeps what it sends on the target, which differs when a remapping profile is used.
+ */
+export class PressedKeys {
+  private keys = new Map<string, IKeyCombo>()
+
+  get hidCodes() {
+    const hidCodes = new Set<number>()
+    for (const {hidCode} of this.keys.values()) {
+      if (hidCode) {
+        hidCodes.add(hidCode)
+      }
+    }
+    return [...hidCodes]
+  }
+
+  isModifier(code: string) {
+    return code in MODIFIER_CODES
+  }
+
+  // Returns false if the key was already held, i.e. the event is an auto-repeat
+  press(code: string, combo: IKeyCombo) {
+    if (this.keys.has(code)) {
+      return false
+    }
+    this.keys.set(code, combo)
+    return true
+  }
+
+  // Returns false if the key was not held
+  release(code: string) {
+    return this.keys.delete(code)
+  }
+
+  /**
+   * Modifier byte for the next report
+   * Checked against the modifier flags of the event, which stay right
+   * when a modifier went up or down while the page had no focus.
+   */
+  modifiers(event: KeyboardEvent) {
+    let heldSides = 0
+    for (const code of [...this.keys.keys()]) {
+      const modifier = MODIFIER_CODES[code]
+      const side = MODIFIER_SIDES.find(
+        ([, left, right]) => modifier === left || modifier === right,
+      )
+      if (!side) {
+        continue
+      }
+      if (event[side[0]]) {
+        heldSides |= side[1] | side[2]
+      } else {
+        this.keys.delete(code)
+      }
+    }
+    let modifiers = 0
+    for (const combo of this.keys.values()) {
+      modifiers |= combo.modifiers
+    }
+    for (const [flag, left, right] of MODIFIER_SIDES) {
+      if (event[flag] && !(heldSides & (left | right))) {
+        modifiers |= left
+      }
+    }
+    return modifiers
+  }
+
+  clear() {
+    this.keys.clear()
+  }
+}
+
+/**
+ * Typed input API on top of the CH9329 reports
+ * Shared by the action bar, macros, the special key menu and automation,
+ * so every feature builds the same packets.
+ */
+export class KvmInputService {
+  // Delay between two typed characters, lets slow targets keep up
+  typingInterval = 16
+  // Keyboard layout of the target OS, typed text and combo characters are translated with it
+  layout: KeyboardLayout = getKeyboardLayout(DEFAULT_KEYBOARD_LAYOUT)
+  // Input method of the target OS typing the characters the layout has no key for
+  unicodeMethod = 'none'
+  // Remapping profile of the target, applied to the combos of macros and advanced text
+  keyRemap: KeyRemap | null = null
+
+  private readonly writers: IKvmInputWriters
+  private modifiers = 0
+  private keys: number[] = []
+  private buttons = 0
+
+  constructor(writers: IKvmInputWriters) {
+    this.writers = writers
+  }
+
+  /**
+   * Send a keyboard report with the given modifier byte and pressed keys
+   * Bypasses the keys held with keyDown, e.g. for reports built from browser events.
+   * More than six keys report a rollover error, like a real boot keyboard does.
+   */
+  async keyboardReport(modifiers: number, keys: number[] = []) {
+    const slots =
+      keys.length > REPORT_KEY_SLOTS
+        ? new Array(REPORT_KEY_SLOTS).fill(KEY_ERROR_ROLLOVER)
+        : [...keys]
+    while (slots.length < REPORT_KEY_SLOTS) slots.push(0)
+    await this.writers.writeKeyboard(
+      new Uint8Array(
+        genPacket(CmdType.CMD_SEND_KB_GENERAL_DATA, modifiers, 0, ...slots),
+      ),
+    )
+  }
+
+  /**
+   * Press a key and keep it held, modifier names set their bit of the report
+   * @param key key name, character or HID usage code
+   * @throws Error if the key is unknown
+   */
+  async keyDown(key: string | number) {
+    const modifier = typeof key === 'string' && this.toModifier(key)
+    if (modifier) {
+      this.modifiers |= modifier
+    } else {
+      const hidCode = this.toHidCode(key)
+      if (!this.keys.includes(hidCode)) {
+        this.keys = [...this.keys, hidCode].slice(-REPORT_KEY_SLOTS)
+      }
+    }
+    await this.keyboardReport(this.modifiers, this.keys)
+  }
+
+  async keyUp(key: string | number) {
+    const modifier = typeof key === 'string' && this.toModifier(key)
+    if (modifier) {
+      this.modifiers &= ~modifier
+    } else {
+      const hidCode = this.toHidCode(key)
+      this.keys = this.keys.filter((k) => k !== hidCode)
+    }
+    await this.keyboardReport(this.modifiers, this.keys)
+  }
+
+  // Release every key and modifier held on the keyboard
+  async releaseKeys() {
+    this.modifiers = 0
+    this.keys = []
+    await this.keyboardReport(0)
+  }
+
+  /**
+   * Press and release a key combo like "CTRL+ALT+DEL"
+   * @param interval delay after the release in ms
+   * @throws Error if the combo contains an unknown key
+   */
+  async tap(combo: string | IKeyCombo, interval = this.typingInterval) {
+    const {modifiers, hidCode} =
+      typeof combo === 'string' ? this.parseCombo(combo) : combo
+    await this.writers.writeKeyboard(
+      new Uint8Array([
+        ...genPacket(
+          CmdType.CMD_SEND_KB_GENERAL_DATA,
+          modifiers,
+          0,
+          hidCode,
+          0,
+          0,
+          0,
+          0,
+          0,
+        ),
+        ...genPacket(CmdType.CMD_SEND_KB_GENERAL_DATA, 0, 0, 0, 0, 0, 0, 0, 0),
+      ]),
+    )
+    await sleep(interval)
+  }
+
+  /**
+   * Type text key by key on the target layout
+   * Characters without a key go through the Unicode input method, if one is set
+   * @param interval delay between two characters in ms
+   * @returns the characters that were skipped because they have no key
+   */
+  async typeText(text: string, interval = this.typingInterval) {
+    const skipped: string[] = []
+    // switch to the ascii mode of ch9329 needs reconnect, which is unacceptable
+    for (const char of text) {
+      const key = this.layout.get(char)
+      if (!key) {
+        const sequence = unicodeSequence(this.unicodeMethod, char, this.layout)
+        if (sequence) {
+          await this.typeSequence(sequence, interval)
+        } else {
+          skipped.push(char)
+        }
+        continue
+      }
+      await this.tap(key, interval)
+      if (key.dead) {
+        await this.tap(
+          {modifiers: 0, hidCode: KEY_CODES.get('Space')!},
+          interval,
+        )
+      }
+    }
+    return skipped
+  }
+
+  // Tap the keys of a Unicode input sequence, keeping its modifiers held in between
+  private async typeSequence({hold, keys}: IUnicodeSequence, interval: number) {
+    if (hold) {
+      await this.keyboardReport(hold)
+    }
+    for (const {modifiers, hidCode} of keys) {
+      await this.keyboardReport(hold | modifiers, [hidCode])
+      await this.keyboardReport(hold)
+      await sleep(interval)
+    }
+    await this.keyboardReport(0)
+    await sleep(interval)
+  }
+
+  /**
+   * Type text with embedded commands: |||CTRL+C||| taps a combo, |||DELAY=1.5||| waits in seconds
+   * Invalid commands are skipped and reported, the rest of the text is still typed
+   */
+  async typeAdvancedText(text: string): Promise<ITypeResult> {
+    const result: ITypeResult = {skipped: [], errors: []}
+    const commandRegex = /\|\|\|(.*?)\|\|\|/g
+    let lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = commandRegex.exec(text)) !== null) {
+      result.skipped.push(
+        ...(await this.typeText(text.substring(lastIndex, match.index))),
+      )
+      lastIndex = commandRegex.lastIndex
+      const command = match[1].trim()
+      if (!command) {
+        continue
+      }
+      try {
+        if (/^DELAY=/i.test(command)) {
+          const seconds = parseFloat(command.substring(6))
+          if (!(seconds > 0)) {
+            throw new Error(`Invalid delay value: ${command}`)
+          }
+          await sleep(seconds * 1000)
+        } else {
+          await this.tap(command)
+        }
+      } catch (error: any) {
+        result.errors.push(error.message)
+      }
+    }
+    result.skipped.push(...(await this.typeText(text.substring(lastIndex))))
+    return result
+  }
+
+  /**
+   * Move the mouse to a position on the target screen
+   * @param x 0 to ABS_MOUSE_MAX, left to right
+   * @param y 0 to ABS_MOUSE_MAX, top to bottom
+   */
+  async mouseMoveAbs(x: number, y: number, buttons = this.buttons) {
+    const clamp = (v: number) =>
+      Math.max(0, Math.min(Math.round(v), ABS_MOUSE_MAX))
+    await this.writers.writeMouse(
+      new Uint8Array(
+        genPacket(
+          CmdType.CMD_SEND_MS_ABS_DATA,
+          0x02,
+          buttons,
+          ...decomposeHexToBytes(clamp(x)),
+          ...decomposeHexToBytes(clamp(y)),
+          0,
+        ),
+      ),
+    )
+  }
+
+  /**
+   * Move the mouse by a distance, split into reports of at most 127 counts per axis
+   * A move of 0, 0 still sends one report, e.g. to change the buttons
+   */
+  async mouseMoveRel(dx: number, dy: number, buttons = this.buttons) {
+    let [x, y] = [Math.trunc(dx), Math.trunc(dy)]
+    const value: number[] = []
+    do {
+      const [pX, pY] = [i8clamp(x), i8clamp(y)]
+      x -= pX
+      y -= pY
+      value.push(
+        ...genPacket(
+          CmdType.CMD_SEND_MS_REL_DATA,
+          0x01,
+          buttons,
+          toInt8Byte(pX),
+          toInt8Byte(pY),
+          0,
+        ),
+      )
+    } while (x !== 0 || y !== 0)
+    await this.writers.writeMouse(new Uint8Array(value))
+  }
+
+  async mouseDown(button = MouseButton.LEFT) {
+    this.buttons |= button
+    await this.mouseMoveRel(0, 0)
+  }
+
+  async mouseUp(button = MouseButton.LEFT) {
+    this.buttons &= ~button
+    await this.mouseMoveRel(0, 0)
+  }
+
+  // Press and release a mouse button where the cursor is
+  async click(button = MouseButton.LEFT) {
+    await this.mouseDown(button)
+    await this.mouseUp(button)
+  }
+
+  /**
+   * Turn the mouse wheel
+   * @param steps positive scrolls up, negative scrolls down
+   */
+  async scroll(steps: number) {
+    const wheel = toInt8Byte(i8clamp(Math.round(steps)))
+    await this.writers.writeMouse(
+      new Uint8Array(
+        genPacket(
+          CmdType.CMD_SEND_MS_REL_DATA,
+          0x01,
+          this.buttons,
+          0,
+          0,
+          wheel,
+        ),
+      ),
+    )
+  }
+
+  // Press and release a multimedia key
+  async mediaKey(key: MediaKey) {
+    const bytes = [0, 0, 0]
+    mediaKeyMatrix.forEach((row, i) => {
+      const j = row.indexOf(key)
+      if (j !== -1) {
+        bytes[i] = indexToBinary(j)
+      }
+    })
+    await this.writers.writeKeyboard(
+      new Uint8Array([
+        ...genPacket(CmdType.CMD_SEND_KB_MEDIA_DATA, 0x02, ...bytes),
+        ...genPacket(CmdType.CMD_SEND_KB_MEDIA_DATA, 0x02, 0, 0, 0),
+      ]),
+    )
+  }
+
+  // Press and release a power management key
+  async acpi(key: AcpiKey) {
+    await this.writers.writeKeyboard(
+      new Uint8Array([
+        ...genPacket(CmdType.CMD_SEND_KB_MEDIA_DATA, 0x01, key),
+        ...genPacket(CmdType.CMD_SEND_KB_MEDIA_DATA, 0x01, 0),
+      ]),
+    )
+  }
+
+  private parseCombo(combo: string) {
+    const parsed = parseKeyCombo(combo, this.layout)
+    return this.keyRemap ? this.keyRemap.combo(parsed) : parsed
+  }
+
+  private toModifier(key: string) {
+    return key.length > 1 ? MODIFIER_NAMES[key.toUpperCase()] : undefined
+  }
+
+  private toHidCode(key: string | number) {
+    const hidCode = typeof key === 'number' ? key : keyNameToHidCode(key)
+    if (!hidCode) {
+      throw new Error(`Unknown key: ${key}`)
+    }
+    return hidCode
+  }
+}
@@ -1,14 +1,390 @@
 import {createGlobalState} from '@vueuse/core'
-import {shallowRef} from 'vue'
-import type {SerialPort} from 'web-serial-polyfill'
+import {computed, ref, shallowRef} from 'vue'
+import {eventBus} from '@/utils/event-bus'
+import {
+  Ch9329FrameDecoder,
+  type Ch9329Reply,
+  DEFAULT_CHIP_ADDRESS,
+  describeReply,
+  encodeFrame,
+  type ICh9329Frame,
+  isReplyFailed,
+  isValidChipAddress,
+  parseReply,
+} from '@/components/KBKvmController/utils/ch9329'
+import {
+  type KvmTransport,
+  WebSerialTransport,
+} from '@/components/KBKvmController/utils/transport'
+import {SerialWriteQueue} from '@/components/KBKvmController/utils/write-queue'
+import {useSerialTraffic} from '@/components/KBKvmController/composables/useSerialTraffic'
+import {useSessionsStore} from '@/stores/sessions'
 
+// Queued frames from which the link is shown as saturated
+const SATURATED_QUEUE_DEPTH = 8
+
+// Session end of a link, receives the frames of one address code
+interface ISerialLinkClient {
+  onFrameOut: (frame: ICh9329Frame) => void
+  onFrameIn: (frame: ICh9329Frame) => void
+  onDisconnect: () => void
+}
+
+const formatAddress = (addr: number) => {
+  return `0x${addr.toString(16).padStart(2, '0').toUpperCase()}`
+}
+
+/**
+ * One open port, shared by the sessions of every chip on its RS-485/TTL bus
+ * Frames are routed to and from the sessions by their address code
+ */
+const createSerialLink = (transport: KvmTransport) => {
+  // Baud rate the transport was opened with, the same for every chip on the bus
+  const baudRate = ref(0)
+  // Frames waiting in the write queue
+  const queueDepth = ref(0)
+  const clients = new Map<number, ISerialLinkClient>()
+
+  const writeQueue = new SerialWriteQueue(
+    async (frame) => {
+      clients.get(frame.addr)?.onFrameOut(frame)
+      await transport.write(new Uint8Array(encodeFrame(frame)))
+    },
+    (depth) => (queueDepth.value = depth),
+  )
+
+  // Loop to read serial port output
+  const readLoop = async () => {
+    // Replies of chips without a session are dropped
+    const decoder = new Ch9329FrameDecoder({
+      acceptAddress: (addr) => clients.has(addr),
+    })
+    for (;;) {
+      try {
+        // Read data from serial port
+        const value = await transport.read()
+        if (!value) {
+          // Reading finished
+          break
+        }
+        // Process read data
+        for (const frame of decoder.push(value)) {
+          clients.get(frame.addr)?.onFrameIn(frame)
+        }
+      } catch (error) {
+        console.error('Read error: ', error)
+        break
+      }
+    }
+  }
+
+  let removeDisconnectListener: (() => void) | null = null
+
+  const close = async () => {
+    removeDisconnectListener?.()
+    removeDisconnectListener = null
+    baudRate.value = 0
+    writeQueue.clear()
+    await transport.close()
+  }
+
+  // The device was unplugged, every session on the bus loses its chip
+  const handleDisconnect = async () => {
+    console.warn(`${transport.name} device disconnected`)
+    const detached = [...clients.values()]
+    clients.clear()
+    await close()
+    detached.forEach((client) => client.onDisconnect())
+  }
+
+  const open = async (rate: number) => {
+    await transport.open(rate)
+    baudRate.value = rate
+    writeQueue.baudRate = rate
+    removeDisconnectListener = transport.onDisconnect(handleDisconnect)
+
+    readLoop()
+  }
+
+  // Close and open the transport again, e.g. with another baud rate
+  const reopen = async (rate: number) => {
+    await close()
+    await open(rate)
+  }
+
+  /**
+   * Route the frames of an address code to a session
+   * @throws Error if another session already uses the address on this port
+   */
+  const attach = (addr: number, client: ISerialLinkClient) => {
+    if (clients.has(addr)) {
+      throw new Error(
+        `Address ${formatAddress(addr)} is already used on ${transport.name}`,
+      )
+    }
+    clients.set(addr, client)
+  }
+
+  // The port is closed once the last session leaves it
+  const detach = async (addr: number) => {
+    clients.delete(addr)
+    if (!clients.size) {
+      await close()
+    }
+  }
+
+  const isAddressUsed = (addr: number) => clients.has(addr)
+
+  const readdress = (from: number, to: number) => {
+    const client = clients.get(from)
+    if (!client || from === to) {
+      return
+    }
+    attach(to, client)
+    clients.delete(from)
+  }
+
+  return {
+    transport,
+    baudRate,
+    queueDepth,
+    writeQueue,
+    open,
+    reopen,
+    attach,
+    detach,
+    isAddressUsed,
+    readdress,
+  }
+}
+
+type SerialLink = ReturnType<typeof createSerialLink>
+
+/**
+ * Connection to the chip of one KVM session
+ * Background sessions stay connected, but only the active session reports
+ * replies, traffic and disconnects to the rest of the app
+ * @param address address code of the chip, outgoing frames are readdressed to it
+ */
+const createSerialState = (isActive: () => boolean, address: number) => {
+  // Port the chip is reached through, null when disconnected
+  const link = shallowRef<SerialLink | null>(null)
+  // Open transport to the chip, null when disconnected
+  const transport = computed(() => link.value?.transport ?? null)
+  // Baud rate the current transport was opened with
+  const baudRate = computed(() => link.value?.baudRate.value ?? 0)
+  const queueDepth = computed(() => link.value?.queueDepth.value ?? 0)
+  const isLinkSaturated = computed(
+    () => queueDepth.value >= SATURATED_QUEUE_DEPTH,
+  )
+  const chipAddress = ref(address)
+  const {record} = useSerialTraffic()
+  // Splits written bytes back into frames for the write queue
+  const outgoingDecoder = new Ch9329FrameDecoder()
+
+  const handleReply = (reply: Ch9329Reply) => {
+    if (!isActive()) {
+      return
+    }
+    if (isReplyFailed(reply)) {
+      window.$notification({
+        type: 'error',
+        message: `CH9329 ${describeReply(reply)}`,
+        timeout: 3000,
+      })
+    }
+    eventBus.emit('ch9329_reply', reply)
+    if (reply.kind === 'hid') {
+      // Sent by the chip on its own whenever the target writes to the custom HID interface
+      eventBus.emit('ch9329_hid_data', reply.data)
+    }
+  }
+
+  const client: ISerialLinkClient = {
+    onFrameOut: (frame) => {
+      if (isActive()) {
+        record('out', frame)
+        eventBus.emit('ch9329_frame_out', frame)
+      }
+    },
+    onFrameIn: (frame) => {
+      if (isActive()) {
+        record('in', frame)
+      }
+      handleReply(parseReply(frame))
+    },
+    onDisconnect: () => {
+      const target = link.value?.transport
+      link.value = null
+      if (target && isActive()) {
+        eventBus.emit('serial_disconnect', target)
+      }
+    },
+  }
+
+  const writeSerial = (data: Uint8Array) => {
+    const current = link.value
+    if (!current) {
+      window.$notification({
+        type: 'error',
+        message: 'Serial port not initialized',
+        timeout: 3000,
+      })
+      return
+    }
+    // Resolves once every frame of data is written or merged into a written frame
+    const frames = outgoingDecoder.push(data)
+    return Promise.all(
+      frames.map((frame) =>
+        current.writeQueue.push({...frame, addr: chipAddress.value}),
+      ),
+    ).then(() => {})
+  }
+
+  const attachLink = (next: SerialLink) => {
+    next.attach(chipAddress.value, client)
+    link.value = next
+  }
+
+  const closeSerial = async () => {
+    const current = link.value
+    if (!current) {
+      return
+    }
+    link.value = null
+    await current.detach(chipAddress.value)
+  }
+
+  const openSerial = async (target: KvmTransport, rate: number) => {
+    await closeSerial()
+    const next = createSerialLink(target)
+    await next.open(rate)
+    attachLink(next)
+  }
+
+  // Close and open the same transport again, e.g. with another baud rate
+  const reopenSerial = async (rate: number) => {
+    const current = link.value
+    if (!current) {
+      throw new Error('Serial port not initialized')
+    }
+    await current.reopen(rate)
+  }
+
+  /**
+   * Reach the chip through the port of another session, for chips sharing one bus
+   * @param next link of the other session
+   * @throws Error if the other session is not connected or uses the same address
+   */
+  const shareSerial = async (next: SerialLink | null) => {
+    if (!next) {
+      throw new Error('The other session is not connected')
+    }
+    if (next === link.value) {
+      return
+    }
+    await closeSerial()
+    attachLink(next)
+  }
+
+  // Another session on the port already uses the address
+  const isChipAddressTaken = (addr: number) => {
+    return addr !== chipAddress.value && !!link.value?.isAddressUsed(addr)
+  }
+
+  /**
+   * Change the address code of the chip, also while connected
+   * @throws Error if the address is invalid or used by another session on the port
+   */
+  const setChipAddress = (addr: number) => {
+    if (!isValidChipAddress(addr)) {
+      throw new Error(`Invalid chip address ${addr}`)
+    }
+    link.value?.readdress(chipAddress.value, addr)
+    chipAddress.value = addr
+  }
+
+  return {
+    link,
+    transport,
+    baudRate,
+    queueDepth,
+    isLinkSaturated,
+    chipAddress,
+    writeSerial,
+    openSerial,
+    closeSerial,
+    reopenSerial,
+    shareSerial,
+    isChipAddressTaken,
+    setChipAddress,
+  }
+}
+
+export type SerialState = ReturnType<typeof createSerialState>
+
+/**
+ * Serial states of all KVM sessions, created on first use
+ */
+export const useSerialSessions = createGlobalState(() => {
+  const sessionsStore = useSessionsStore()
+  const states = new Map<string, SerialState>()
+
+  const getState = (id: string) => {
+    let state = states.get(id)
+    if (!state) {
+      const session = sessionsStore.sessions.find((s) => s.id === id)
+      state = createSerialState(
+        () => sessionsStore.activeSessionId === id,
+        session?.address ?? DEFAULT_CHIP_ADDRESS,
+      )
+      states.set(id, state)
+    }
+    return state
+  }
+
+  const activeState = computed(() => getState(sessionsStore.activeSessionId))
+
+  const removeState = async (id: string) => {
+    await states.get(id)?.closeSerial()
+    states.delete(id)
+  }
+
+  // A port can only be opened once, sessions on the same bus share it with shareSerial
+  const isPortInUse = (port: unknown) => {
+    return [...states.values()].some(({transport}) => {
+      return (
+        transport.value instanceof WebSerialTransport &&
+        transport.value.port === port
+      )
+    })
+  }
+
+  return {
+    activeState,
+    getState,
+    removeState,
+    isPortInUse,
+  }
+})
+
+/**
+ * Serial state of the active KVM session
+ * Follows the session switcher, so input always goes to the active target
+ */
 export const useSerialState = createGlobalState(() => {
-  const reader = shallowRef<any>()
-  const writer = shallowRef<any>()
-  const serialPort = shallowRef<SerialPort | null>(null)
+  const {activeState} = useSerialSessions()
+
   return {
-    reader,
-    writer,
-    serialPort,
+    transport: computed(() => activeState.value.transport.value),
+    baudRate: computed(() => activeState.value.baudRate.value),
+    queueDepth: computed(() => activeState.value.queueDepth.value),
+    isLinkSaturated: computed(() => activeState.value.isLinkSaturated.value),
+    chipAddress: computed(() => activeState.value.chipAddress.value),
+    writeSerial: (data: Uint8Array) => activeState.value.writeSerial(data),
+    openSerial: (target: KvmTransport, rate: number) =>
+      activeState.value.openSerial(target, rate),
+    closeSerial: () => activeState.value.closeSerial(),
+    reopenSerial: (rate: number) => activeState.value.reopenSerial(rate),
   }
 })
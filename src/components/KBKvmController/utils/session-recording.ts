@@ -0,0 +1,85 @@
+import {
+  CmdType,
+  encodeFrame,
+  genPacket,
+  type ICh9329Frame,
+} from '@/components/KBKvmController/utils/ch9329'
+import {toHex} from '@/components/KBKvmController/utils/traffic-log'
+
+export const SESSION_FORMAT = 'kbkvm-session'
+export const SESSION_VERSION = 1
+
+// Only input reports are recorded, status polling and configuration are left out
+export const SESSION_COMMANDS = new Set<number>([
+  CmdType.CMD_SEND_KB_GENERAL_DATA,
+  CmdType.CMD_SEND_KB_MEDIA_DATA,
+  CmdType.CMD_SEND_MS_ABS_DATA,
+  CmdType.CMD_SEND_MS_REL_DATA,
+  CmdType.CMD_SEND_MY_HID_DATA,
+])
+
+export interface ISessionFrame {
+  // Milliseconds since the start of the recording
+  t: number
+  // Complete frame as sent on the wire, hex bytes separated by spaces
+  data: string
+}
+
+export interface ISessionRecording {
+  format: typeof SESSION_FORMAT
+  version: number
+  createdAt: string
+  // Milliseconds from the start of the recording to the last frame
+  duration: number
+  frames: ISessionFrame[]
+}
+
+export const createSessionFrame = (
+  t: number,
+  frame: ICh9329Frame,
+): ISessionFrame => {
+  return {t: Math.round(t), data: toHex(encodeFrame(frame))}
+}
+
+export const sessionFrameBytes = ({data}: ISessionFrame) => {
+  return new Uint8Array(data.split(' ').map((b) => parseInt(b, 16)))
+}
+
+/**
+ * Validate a recording loaded from a file
+ * @throws Error if the file is not a recording of a supported version
+ */
+export const parseSessionRecording = (text: string): ISessionRecording => {
+  const data = JSON.parse(text)
+  if (data?.format !== SESSION_FORMAT) {
+    throw new Error('Invalid file format: not a session recording')
+  }
+  if (data.version > SESSION_VERSION) {
+    throw new Error(`Unsupported session recording version ${data.version}`)
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new Error('Invalid file format: expected a frames array')
+  }
+  let last = 0
+  for (const frame of data.frames) {
+    if (
+      typeof frame?.t !== 'number' ||
+      frame.t < last ||
+      typeof frame.data !== 'string' ||
+      !/^[0-9a-f]{2}( [0-9a-f]{2})*$/i.test(frame.data)
+    ) {
+      throw new Error('Invalid frame in session recording')
+    }
+    last = frame.t
+  }
+  return data
+}
+
+// Releases every key and mouse button, sent after a replay ends or is aborted
+export const genReleaseAllPacket = () => {
+  return new Uint8Array([
+    ...genPacket(CmdType.CMD_SEND_KB_GENERAL_DATA, 0, 0, 0, 0, 0, 0, 0, 0),
+    ...genPacket(CmdType.CMD_SEND_KB_MEDIA_DATA, 0x02, 0, 0, 0),
+    ...genPacket(CmdType.CMD_SEND_MS_REL_DATA, 0x01, 0, 0, 0, 0),
+  ])
+}
@@ -0,0 +1,147 @@
+import moment from 'moment'
+import {
+  CmdType,
+  decodeParaConfig,
+  decodeUsbString,
+  encodeFrame,
+  type ICh9329Frame,
+  PARA_CFG_LENGTH,
+  parseReply,
+  replyStatusText,
+  UsbStringType,
+} from '@/components/KBKvmController/utils/ch9329'
+
+export type TrafficDirection = 'out' | 'in'
+
+export interface ITrafficEntry {
+  id: number
+  timestamp: number
+  direction: TrafficDirection
+  frame: ICh9329Frame
+}
+
+// Bit order of the modifier byte of keyboard and mouse reports
+const MODIFIER_NAMES = [
+  'Ctrl',
+  'Shift',
+  'Alt',
+  'Win',
+  'RCtrl',
+  'RShift',
+  'RAlt',
+  'RWin',
+]
+const MOUSE_BUTTON_NAMES = ['Left', 'Right', 'Middle']
+
+export const toHex = (bytes: ArrayLike<number>) => {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0'))
+    .join(' ')
+    .toUpperCase()
+}
+
+const hexByte = (b: number) => `0x${b.toString(16).padStart(2, '0')}`
+
+// Byte as int8
+const signed = (b: number) => (b > 0x7f ? b - 0x100 : b)
+
+const bitNames = (bits: number, names: string[]) => {
+  return names.filter((_, i) => bits & (1 << i)).join('+') || 'none'
+}
+
+export const commandName = (cmd: number) => {
+  return CmdType[cmd] || `0x${cmd.toString(16).padStart(2, '0')}`
+}
+
+const describeRequest = (cmd: number, data: number[]) => {
+  switch (cmd) {
+    case CmdType.CMD_SEND_KB_GENERAL_DATA: {
+      const keys = data.slice(2).filter((b) => b !== 0)
+      return `KB modifiers=${bitNames(data[0], MODIFIER_NAMES)} keys=[${keys.map(hexByte).join(', ')}]`
+    }
+    case CmdType.CMD_SEND_KB_MEDIA_DATA:
+      return `${data[0] === 0x01 ? 'ACPI' : 'Media'} keys=[${toHex(data.slice(1))}]`
+    case CmdType.CMD_SEND_MS_ABS_DATA:
+      return `MS abs buttons=${bitNames(data[1], MOUSE_BUTTON_NAMES)} x=${data[2] | (data[3] << 8)} y=${data[4] | (data[5] << 8)} wheel=${signed(data[6])}`
+    case CmdType.CMD_SEND_MS_REL_DATA:
+      return `MS rel buttons=${bitNames(data[1], MOUSE_BUTTON_NAMES)} dx=${signed(data[2])} dy=${signed(data[3])} wheel=${signed(data[4])}`
+    case CmdType.CMD_SEND_MY_HID_DATA:
+      return `HID length=${data.length}`
+    case CmdType.CMD_SET_PARA_CFG: {
+      if (data.length !== PARA_CFG_LENGTH) {
+        return `length=${data.length}`
+      }
+      const config = decodeParaConfig(data)
+      return `baud=${config.baudRate} address=${hexByte(config.address)} vid=${hexByte(config.vid)} pid=${hexByte(config.pid)}`
+    }
+    case CmdType.CMD_GET_USB_STRING:
+      return `type=${UsbStringType[data[0]] ?? data[0]}`
+    case CmdType.CMD_SET_USB_STRING: {
+      const {type, value} = decodeUsbString(data)
+      return `${UsbStringType[type] ?? type}="${value}"`
+    }
+    default:
+      return ''
+  }
+}
+
+const describeReplyPayload = (frame: ICh9329Frame) => {
+  const reply = parseReply(frame)
+  switch (reply.kind) {
+    case 'info': {
+      const {version, usbEnumerated, numLock, capsLock, scrollLock} = reply.info
+      const leds = bitNames(+numLock | (+capsLock << 1) | (+scrollLock << 2), [
+        'Num',
+        'Caps',
+        'Scroll',
+      ])
+      return `${version} usb=${usbEnumerated ? 'enumerated' : 'not enumerated'} leds=${leds}`
+    }
+    case 'para_cfg':
+      return `baud=${reply.config.baudRate} address=${hexByte(reply.config.address)}`
+    case 'usb_string':
+      return `${UsbStringType[reply.usbString.type] ?? reply.usbString.type}="${reply.usbString.value}"`
+    case 'hid':
+      return `HID length=${reply.data.length}`
+    case 'status':
+    case 'error':
+      return `${reply.kind === 'error' ? 'error ' : ''}${replyStatusText[reply.status] || `status ${hexByte(reply.status)}`}`
+    default:
+      return ''
+  }
+}
+
+/**
+ * Decode a frame into a readable command name and payload
+ * Incoming frames are replies, their command code is reported without the reply bits
+ */
+export const describeFrame = (
+  direction: TrafficDirection,
+  frame: ICh9329Frame,
+) => {
+  if (direction === 'out') {
+    return {
+      command: commandName(frame.cmd),
+      payload: describeRequest(frame.cmd, frame.data),
+    }
+  }
+  return {
+    command: commandName(parseReply(frame).cmd),
+    payload: describeReplyPayload(frame),
+  }
+}
+
+// One line per entry, tab separated, for the exported text file
+export const formatTrafficLog = (entries: ITrafficEntry[]) => {
+  return entries
+    .map(({timestamp, direction, frame}) => {
+      const {command, payload} = describeFrame(direction, frame)
+      return [
+        moment(timestamp).format('HH:mm:ss.SSS'),
+        direction === 'out' ? 'OUT' : 'IN',
+        command,
+        payload,
+        toHex(encodeFrame(frame)),
+      ].join('\t')
+    })
+    .join('\n')
+}
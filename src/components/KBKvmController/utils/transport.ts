@@ -0,0 +1,265 @@
+import type {SerialPort} from 'web-serial-polyfill'
+import {
+  BROADCAST_CHIP_ADDRESS,
+  Ch9329FrameDecoder,
+  CmdType,
+  encodeParaConfig,
+  genAddressedPacket,
+  type ICh9329Frame,
+  PARA_CFG_LENGTH,
+} from '@/components/KBKvmController/utils/ch9329'
+
+export type TransportKind = 'web-serial' | 'web-usb' | 'mock'
+
+/**
+ * Byte stream between the app and a CH9329 chip
+ * Implemented by Web Serial, WebUSB and the in-memory MockTransport
+ */
+export interface KvmTransport {
+  readonly name: string
+  // Subclasses share the Web Serial code, the kind tells them apart
+  readonly kind: TransportKind
+  open(baudRate: number): Promise<void>
+  write(data: Uint8Array): Promise<void>
+  // Next chunk read from the device, null once the transport is closed
+  read(): Promise<Uint8Array | null>
+  close(): Promise<void>
+  // Called when the device goes away, returns a function to remove the listener
+  onDisconnect(listener: () => void): () => void
+}
+
+/**
+ * Web Serial port, also used for the SerialPort of web-serial-polyfill
+ */
+export class WebSerialTransport implements KvmTransport {
+  readonly name: string
+  readonly kind: TransportKind = 'web-serial'
+  readonly port: SerialPort
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null
+
+  constructor(port: SerialPort, name = 'Web Serial') {
+    this.port = port
+    this.name = name
+  }
+
+  async open(baudRate: number) {
+    const opened = this.port.open({baudRate})
+    const timeout = new Promise((resolve, reject) =>
+      setTimeout(() => reject(new Error('Open serial port timeout')), 900),
+    )
+    await Promise.race([timeout, opened])
+    this.reader = this.port.readable!.getReader()
+    this.writer = this.port.writable!.getWriter()
+  }
+
+  async write(data: Uint8Array) {
+    if (!this.writer) {
+      throw new Error('Serial port not open')
+    }
+    await this.writer.write(data)
+  }
+
+  async read() {
+    if (!this.reader) {
+      return null
+    }
+    const {value, done} = await this.reader.read()
+    return done ? null : value
+  }
+
+  async close() {
+    if (this.reader) {
+      // Resolve a pending read before releasing the lock
+      await this.reader.cancel().catch(() => {})
+      this.reader.releaseLock()
+      this.reader = null
+    }
+    if (this.writer) {
+      this.writer.releaseLock()
+      this.writer = null
+    }
+    await this.port.close().catch(() => {})
+  }
+
+  onDisconnect(listener: () => void) {
+    const port = this.port as any
+    port.addEventListener?.('disconnect', listener)
+    return () => port.removeEventListener?.('disconnect', listener)
+  }
+}
+
+/**
+ * USB serial adapter driven through WebUSB by web-serial-polyfill,
+ * for browsers without Web Serial (e.g. Chrome on Android)
+ */
+export class WebUsbSerialTransport extends WebSerialTransport {
+  readonly kind: TransportKind = 'web-usb'
+  // USBDevice, WebUSB is not part of the DOM typings
+  readonly device: any
+
+  constructor(device: any, port: SerialPort) {
+    super(port, 'WebUSB')
+    this.device = device
+  }
+
+  static async fromDevice(device: any) {
+    const {SerialPort} = await import('web-serial-polyfill')
+    const port = new SerialPort(device, {
+      usbControlInterfaceClass: 255,
+      usbTransferInterfaceClass: 255,
+    })
+    return new WebUsbSerialTransport(device, port)
+  }
+
+  onDisconnect(listener: () => void) {
+    const usb = (navigator as any).usb
+    const handler = (event: any) => {
+      if (event.device === this.device) listener()
+    }
+    usb.addEventListener('disconnect', handler)
+    return () => usb.removeEventListener('disconnect', handler)
+  }
+}
+
+// Factory default parameter block, answered by MockTransport
+const mockParaConfig = () =>
+  encodeParaConfig({
+    workMode: 0x00,
+    serialMode: 0x00,
+    address: 0x00,
+    baudRate: 9600,
+    packetInterval: 3,
+    vid: 0x1a86,
+    pid: 0xe129,
+    asciiUploadInterval: 0,
+    asciiReleaseDelay: 1,
+    asciiAutoEnter: 0,
+    usbStringFlags: 0,
+    raw: new Array(PARA_CFG_LENGTH).fill(0),
+  })
+
+/**
+ * In-memory transport that records every frame written to it
+ * With autoReply it answers commands like a chip with the factory configuration,
+ * or like several chips on one bus when given their addresses.
+ * Opened instead of a port when the page is loaded with ?transport=mock, to try the UI
+ * without a KVM.
+ */
+export class MockTransport implements KvmTransport {
+  readonly name = 'Mock'
+  readonly kind: TransportKind = 'mock'
+  // Every frame written, in order
+  readonly frames: ICh9329Frame[] = []
+  autoReply: boolean
+  // Address codes of the simulated chips, null answers every address
+  addresses: Set<number> | null
+  isOpen = false
+  baudRate = 0
+
+  private decoder = new Ch9329FrameDecoder()
+  private incoming: Uint8Array[] = []
+  private pendingRead: ((chunk: Uint8Array | null) => void) | null = null
+  private disconnectListeners = new Set<() => void>()
+
+  constructor({
+    autoReply = true,
+    addresses = null,
+  }: {autoReply?: boolean; addresses?: number[] | null} = {}) {
+    this.autoReply = autoReply
+    this.addresses = addresses ? new Set(addresses) : null
+  }
+
+  async open(baudRate: number) {
+    this.isOpen = true
+    this.baudRate = baudRate
+  }
+
+  async write(data: Uint8Array) {
+    if (!this.isOpen) {
+      throw new Error('Transport not open')
+    }
+    for (const frame of this.decoder.push(data)) {
+      this.frames.push(frame)
+      if (this.autoReply) {
+        this.reply(frame)
+      }
+    }
+  }
+
+  read() {
+    if (this.incoming.length) {
+      return Promise.resolve(this.incoming.shift()!)
+    }
+    if (!this.isOpen) {
+      return Promise.resolve(null)
+    }
+    return new Promise<Uint8Array | null>((resolve) => {
+      this.pendingRead = resolve
+    })
+  }
+
+  async close() {
+    this.isOpen = false
+    this.incoming = []
+    this.resolveRead(null)
+  }
+
+  onDisconnect(listener: () => void) {
+    this.disconnectListeners.add(listener)
+    return () => this.disconnectListeners.delete(listener)
+  }
+
+  // Feed bytes as if they were sent by the chip
+  inject(bytes: ArrayLike<number>) {
+    const chunk = new Uint8Array(bytes)
+    if (!this.resolveRead(chunk)) {
+      this.incoming.push(chunk)
+    }
+  }
+
+  // Simulate unplugging the device
+  async disconnect() {
+    await this.close()
+    this.disconnectListeners.forEach((listener) => listener())
+  }
+
+  clear() {
+    this.frames.length = 0
+  }
+
+  private resolveRead(chunk: Uint8Array | null) {
+    const resolve = this.pendingRead
+    if (!resolve) {
+      return false
+    }
+    this.pendingRead = null
+    resolve(chunk)
+    return true
+  }
+
+  private reply({addr, cmd, data}: ICh9329Frame) {
+    if (
+      addr === BROADCAST_CHIP_ADDRESS ||
+      (this.addresses && !this.addresses.has(addr))
+    ) {
+      return
+    }
+    let payload: number[]
+    switch (cmd) {
+      case CmdType.CMD_GET_INFO:
+        // V1.0, target enumerated, all LEDs off
+        payload = [0x30, 0x01, 0x00, 0, 0, 0, 0, 0]
+        break
+      case CmdType.CMD_GET_PARA_CFG:
+        payload = mockParaConfig()
+        break
+      case CmdType.CMD_GET_USB_STRING:
+        payload = [data[0] ?? 0, 0]
+        break
+      default:
+        payload = [0x00]
+    }
+    this.inject(genAddressedPacket(addr, (cmd | 0x80) as CmdType, ...payload))
+  }
+}
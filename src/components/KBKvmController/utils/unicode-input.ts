@@ -0,0 +1,158 @@
+import {KEY_CODES} from '@/components/KBKvmController/utils/keys-enum'
+import type {KeyboardLayout} from '@/components/KBKvmController/utils/keyboard-layouts'
+import type {IKeyCombo} from '@/components/KBKvmController/utils/kvm-input'
+
+// Modifier bits used by the input methods
+const CTRL = 0x01
+const SHIFT = 0x02
+const ALT = 0x04
+
+export const UNICODE_INPUT_METHOD_OPTIONS = [
+  {value: 'none', label: 'None, skip characters without a key'},
+  {value: 'linux', label: 'Linux GTK / IBus (Ctrl+Shift+U)'},
+  {
+    value: 'windows-alt',
+    label: 'Windows Alt+Numpad codes (Western characters)',
+  },
+  {
+    value: 'windows-hex',
+    label: 'Windows Alt+Numpad+ hex (needs EnableHexNumpad)',
+  },
+  {value: 'macos', label: 'macOS Unicode Hex Input'},
+]
+
+export interface IUnicodeSequence {
+  // Modifiers held from the first key to the last one
+  hold: number
+  keys: IKeyCombo[]
+}
+
+// Windows-1252 characters between 0x80 and 0x9F, the rest of the code page matches Latin-1
+const CP1252_CODES = new Map<string, number>([
+  ['€', 0x80],
+  ['‚', 0x82],
+  ['ƒ', 0x83],
+  ['„', 0x84],
+  ['…', 0x85],
+  ['†', 0x86],
+  ['‡', 0x87],
+  ['ˆ', 0x88],
+  ['‰', 0x89],
+  ['Š', 0x8a],
+  ['‹', 0x8b],
+  ['Œ', 0x8c],
+  ['Ž', 0x8e],
+  ['‘', 0x91],
+  ['’', 0x92],
+  ['“', 0x93],
+  ['”', 0x94],
+  ['•', 0x95],
+  ['–', 0x96],
+  ['—', 0x97],
+  ['˜', 0x98],
+  ['™', 0x99],
+  ['š', 0x9a],
+  ['›', 0x9b],
+  ['œ', 0x9c],
+  ['ž', 0x9e],
+  ['Ÿ', 0x9f],
+])
+
+const keyOf = (code: string): IKeyCombo => ({
+  modifiers: 0,
+  hidCode: KEY_CODES.get(code)!,
+})
+
+// Hex digit keys of a US keyboard, Unicode Hex Input of macOS is a US layout
+const usHexDigit = (digit: string) =>
+  keyOf(/\d/.test(digit) ? `Digit${digit}` : `Key${digit.toUpperCase()}`)
+
+const toHexDigits = (codePoint: number) =>
+  codePoint.toString(16).padStart(4, '0')
+
+/**
+ * Keys typing a character through a Unicode input method of the target OS
+ * Digits and letters the method reads as characters are looked up on the target layout.
+ * @returns null if the method can't type this character
+ */
+export const unicodeSequence = (
+  method: string,
+  char: string,
+  layout: KeyboardLayout,
+): IUnicodeSequence | null => {
+  const codePoint = char.codePointAt(0)!
+  const layoutKeys = (chars: string) => {
+    const keys = [...chars].map((c) => layout.get(c))
+    return keys.every(Boolean) ? (keys as IKeyCombo[]) : null
+  }
+
+  switch (method) {
+    case 'linux': {
+      // Ctrl+Shift+U starts the entry, the hex code follows and space commits it
+      const keys = layoutKeys(`u${codePoint.toString(16)} `)
+      if (!keys) {
+        return null
+      }
+      keys[0] = {modifiers: CTRL | SHIFT, hidCode: keys[0].hidCode}
+      return {hold: 0, keys}
+    }
+    case 'windows-alt': {
+      // Alt+0 with the decimal code of the ANSI code page, NumLock must be on
+      const ansiCode =
+        CP1252_CODES.get(char) ??
+        (codePoint >= 0xa0 && codePoint <= 0xff ? codePoint : undefined)
+      if (ansiCode === undefined) {
+        return null
+      }
+      return {
+        hold: ALT,
+        keys: [...`0${ansiCode}`].map((d) => keyOf(`Numpad${d}`)),
+      }
+    }
+    case 'windows-hex': {
+      if (codePoint > 0xffff) {
+        return null
+      }
+      const digits = [...codePoint.toString(16)].map((d) =>
+        /\d/.test(d) ? keyOf(`Numpad${d}`) : layout.get(d),
+      )
+      if (!digits.every(Boolean)) {
+        return null
+      }
+      return {
+        hold: ALT,
+        keys: [keyOf('NumpadAdd'), ...(digits as IKeyCombo[])],
+      }
+    }
+    case 'macos': {
+      // Characters beyond the BMP are typed as their UTF-16 surrogate pair
+      let hex = ''
+      for (let i = 0; i < char.length; i++) {
+        hex += toHexDigits(char.charCodeAt(i))
+      }
+      return {hold: ALT, keys: [...hex].map(usHexDigit)}
+    }
+    default:
+      return null
+  }
+}
+
+export type TypedCharMethod = 'key' | 'unicode' | 'none'
+
+/**
+ * How each character of a text would be typed, for the preview in the settings
+ */
+export const planTypedText = (
+  text: string,
+  layout: KeyboardLayout,
+  method: string,
+) =>
+  [...text].map((char) => {
+    let via: TypedCharMethod = 'none'
+    if (layout.has(char)) {
+      via = 'key'
+    } else if (unicodeSequence(method, char, layout)) {
+      via = 'unicode'
+    }
+    return {char, via}
+  })
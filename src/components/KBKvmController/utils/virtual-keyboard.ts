@@ -0,0 +1,218 @@
+import {KEY_CODES} from '@/components/KBKvmController/utils/keys-enum'
+import type {KeyboardLayout} from '@/components/KBKvmController/utils/keyboard-layouts'
+import {MediaKey} from '@/components/KBKvmController/utils/ch9329'
+import {
+  AcpiKey,
+  KeyModifier,
+} from '@/components/KBKvmController/utils/kvm-input'
+
+export interface IVirtualKey {
+  // KeyboardEvent.code of the key, empty for a gap
+  code: string
+  // Fixed legend, character keys take theirs from the target layout
+  label?: string
+  // In key units, 1 if not set
+  width?: number
+}
+
+const gap = (width = 1): IVirtualKey => ({code: '', width})
+
+const keys = (codes: string[]) => codes.map((code) => ({code}))
+
+const functionKeys = (from: number, to: number) => {
+  const row: IVirtualKey[] = []
+  for (let i = from; i <= to; i++) {
+    row.push({code: `F${i}`, label: `F${i}`})
+  }
+  return row
+}
+
+const letterKeys = (letters: string) => {
+  return keys([...letters].map((letter) => `Key${letter}`))
+}
+
+/**
+ * Rows of the main block
+ * ISO layouts have an extra key between the left Shift and Z.
+ */
+export const mainRows = (iso: boolean): IVirtualKey[][] => [
+  [
+    {code: 'Escape', label: 'Esc'},
+    gap(),
+    ...functionKeys(1, 4),
+    gap(0.5),
+    ...functionKeys(5, 8),
+    gap(0.5),
+    ...functionKeys(9, 12),
+  ],
+  [
+    ...keys([
+      'Backquote',
+      'Digit1',
+      'Digit2',
+      'Digit3',
+      'Digit4',
+      'Digit5',
+      'Digit6',
+      'Digit7',
+      'Digit8',
+      'Digit9',
+      'Digit0',
+      'Minus',
+      'Equal',
+    ]),
+    {code: 'Backspace', label: 'Backspace', width: 2},
+  ],
+  [
+    {code: 'Tab', label: 'Tab', width: 1.5},
+    ...letterKeys('QWERTYUIOP'),
+    ...keys(['BracketLeft', 'BracketRight']),
+    iso
+      ? {code: 'Enter', label: 'Enter', width: 1.5}
+      : {code: 'Backslash', width: 1.5},
+  ],
+  [
+    {code: 'CapsLock', label: 'Caps Lock', width: 1.75},
+    ...letterKeys('ASDFGHJKL'),
+    ...keys(['Semicolon', 'Quote']),
+    ...(iso ? keys(['Backslash']) : []),
+    {code: 'Enter', label: 'Enter', width: iso ? 1.25 : 2.25},
+  ],
+  [
+    {code: 'ShiftLeft', label: 'Shift', width: iso ? 1.25 : 2.25},
+    ...(iso ? keys(['IntlBackslash']) : []),
+    ...letterKeys('ZXCVBNM'),
+    ...keys(['Comma', 'Period', 'Slash']),
+    {code: 'ShiftRight', label: 'Shift', width: 2.75},
+  ],
+  [
+    {code: 'ControlLeft', label: 'Ctrl', width: 1.25},
+    {code: 'MetaLeft', label: 'Meta', width: 1.25},
+    {code: 'AltLeft', label: 'Alt', width: 1.25},
+    {code: 'Space', label: '', width: 6.25},
+    {code: 'AltRight', label: 'AltGr', width: 1.25},
+    {code: 'MetaRight', label: 'Meta', width: 1.25},
+    {code: 'ContextMenu', label: 'Menu', width: 1.25},
+    {code: 'ControlRight', label: 'Ctrl', width: 1.25},
+  ],
+]
+
+export const NAVIGATION_ROWS: IVirtualKey[][] = [
+  [
+    {code: 'PrintScreen', label: 'PrtSc'},
+    {code: 'ScrollLock', label: 'ScrLk'},
+    {code: 'Pause', label: 'Pause'},
+  ],
+  [
+    {code: 'Insert', label: 'Ins'},
+    {code: 'Home', label: 'Home'},
+    {code: 'PageUp', label: 'PgUp'},
+  ],
+  [
+    {code: 'Delete', label: 'Del'},
+    {code: 'End', label: 'End'},
+    {code: 'PageDown', label: 'PgDn'},
+  ],
+  [gap(3)],
+  [gap(), {code: 'ArrowUp', label: '↑'}, gap()],
+  [
+    {code: 'ArrowLeft', label: '←'},
+    {code: 'ArrowDown', label: '↓'},
+    {code: 'ArrowRight', label: '→'},
+  ],
+]
+
+// Enter and + keep the width of one key instead of spanning two rows
+export const NUMPAD_ROWS: IVirtualKey[][] = [
+  [gap(4)],
+  [
+    {code: 'NumLock', label: 'Num'},
+    {code: 'NumpadDivide', label: '/'},
+    {code: 'NumpadMultiply', label: '*'},
+    {code: 'NumpadSubtract', label: '-'},
+  ],
+  [
+    {code: 'Numpad7', label: '7'},
+    {code: 'Numpad8', label: '8'},
+    {code: 'Numpad9', label: '9'},
+    {code: 'NumpadAdd', label: '+'},
+  ],
+  [
+    {code: 'Numpad4', label: '4'},
+    {code: 'Numpad5', label: '5'},
+    {code: 'Numpad6', label: '6'},
+    gap(),
+  ],
+  [
+    {code: 'Numpad1', label: '1'},
+    {code: 'Numpad2', label: '2'},
+    {code: 'Numpad3', label: '3'},
+    {code: 'NumpadEnter', label: 'Enter'},
+  ],
+  [
+    {code: 'Numpad0', label: '0', width: 2},
+    {code: 'NumpadDecimal', label: '.'},
+    gap(),
+  ],
+]
+
+export interface IVirtualMediaKey {
+  label: string
+  // mdi icon name
+  icon: string
+  media?: MediaKey
+  acpi?: AcpiKey
+}
+
+export const MEDIA_KEYS: IVirtualMediaKey[] = [
+  {
+    label: 'Previous Track',
+    icon: 'mdi-skip-previous',
+    media: MediaKey.PREV_TRACK,
+  },
+  {label: 'Play / Pause', icon: 'mdi-play-pause', media: MediaKey.PLAY_PAUSE},
+  {label: 'Stop', icon: 'mdi-stop', media: MediaKey.CD_STOP},
+  {label: 'Next Track', icon: 'mdi-skip-next', media: MediaKey.NEXT_TRACK},
+  {label: 'Mute', icon: 'mdi-volume-mute', media: MediaKey.MUTE},
+  {
+    label: 'Volume Down',
+    icon: 'mdi-volume-minus',
+    media: MediaKey.VOLUME_MINUS,
+  },
+  {label: 'Volume Up', icon: 'mdi-volume-plus', media: MediaKey.VOLUME_PLUS},
+  {label: 'Browser Back', icon: 'mdi-arrow-left', media: MediaKey.BACK},
+  {label: 'Browser Forward', icon: 'mdi-arrow-right', media: MediaKey.FORWARD},
+  {label: 'Browser Home', icon: 'mdi-home', media: MediaKey.HOME},
+  {label: 'Search', icon: 'mdi-magnify', media: MediaKey.SEARCH},
+  {label: 'E-Mail', icon: 'mdi-email-outline', media: MediaKey.E_MAIL},
+  {label: 'Calculator', icon: 'mdi-calculator', media: MediaKey.CALCULATOR},
+  {label: 'My Computer', icon: 'mdi-laptop', media: MediaKey.MY_COMPUTER},
+  {label: 'Sleep', icon: 'mdi-power-sleep', acpi: AcpiKey.SLEEP},
+  {label: 'Wake-up', icon: 'mdi-weather-sunny', acpi: AcpiKey.WAKE_UP},
+  {label: 'Power', icon: 'mdi-power', acpi: AcpiKey.POWER},
+]
+
+export interface IKeyLegend {
+  base: string
+  shift: string
+}
+
+// Characters printed on the keys, by HID usage code
+export const keyLegends = (layout: KeyboardLayout) => {
+  const legends = new Map<number, IKeyLegend>()
+  for (const [char, {hidCode, modifiers}] of layout) {
+    if (char.trim() !== char || char.length !== 1) {
+      continue
+    }
+    const legend = legends.get(hidCode) ?? {base: '', shift: ''}
+    if (modifiers === 0) {
+      legend.base = char
+    } else if (modifiers === KeyModifier.SHIFT) {
+      legend.shift = char
+    }
+    legends.set(hidCode, legend)
+  }
+  return legends
+}
+
+export const virtualKeyHidCode = (code: string) => KEY_CODES.get(code) ?? 0
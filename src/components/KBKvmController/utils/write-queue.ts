@@ -0,0 +1,191 @@
+import {
+  CmdType,
+  encodeFrame,
+  type ICh9329Frame,
+} from '@/components/KBKvmController/utils/ch9329'
+import {sleep} from '@/components/KBKvmController/utils'
+
+export enum WritePriority {
+  // Keyboard reports and commands, sent before any pending mouse report
+  HIGH = 0,
+  // Mouse moves, pending ones are merged while the link is busy
+  MOUSE = 1,
+}
+
+// 8N1 serial: 10 bits on the wire per byte
+const BITS_PER_BYTE = 10
+// Bytes allowed ahead of the wire before new frames wait in the queue,
+// only queued frames can be merged or overtaken
+const MAX_IN_FLIGHT_MS = 20
+
+interface IQueueItem {
+  frame: ICh9329Frame
+  // One per write merged into this frame
+  callbacks: {resolve: () => void; reject: (error: Error) => void}[]
+}
+
+// Byte as int8
+const toInt8 = (b: number) => (b > 0x7f ? b - 0x100 : b)
+const fitsInt8 = (v: number) => v >= -0x7f && v <= 0x7f
+
+/**
+ * Merge a mouse report into the pending one if the target would end up in the same state
+ * @returns the merged DATA, or null if both reports must be sent
+ */
+const mergeMouseData = (
+  pending: ICh9329Frame,
+  next: ICh9329Frame,
+): number[] | null => {
+  if (pending.cmd !== next.cmd || pending.addr !== next.addr) {
+    return null
+  }
+  const [a, b] = [pending.data, next.data]
+  // A button change is never merged away
+  if (a[1] !== b[1]) {
+    return null
+  }
+  if (next.cmd === CmdType.CMD_SEND_MS_ABS_DATA) {
+    // Only the last absolute position matters, the wheel is relative
+    return a[6] === 0 && b[6] === 0 ? b : null
+  }
+  if (next.cmd === CmdType.CMD_SEND_MS_REL_DATA) {
+    const sums = [2, 3, 4].map((i) => toInt8(a[i]) + toInt8(b[i]))
+    if (!sums.every(fitsInt8)) {
+      return null
+    }
+    return [a[0], a[1], ...sums.map((v) => v & 0xff)]
+  }
+  return null
+}
+
+export const frameWritePriority = (frame: ICh9329Frame) => {
+  return frame.cmd === CmdType.CMD_SEND_MS_ABS_DATA ||
+    frame.cmd === CmdType.CMD_SEND_MS_REL_DATA
+    ? WritePriority.MOUSE
+    : WritePriority.HIGH
+}
+
+/**
+ * Single send queue in front of the transport
+ * Frames are paced to the baud rate so the chip is never flooded,
+ * keyboard frames overtake mouse moves and pending mouse moves are merged.
+ * Button changes stay in order with keyboard frames, so Ctrl+click keeps its Ctrl.
+ */
+export class SerialWriteQueue {
+  baudRate = 9600
+  private lanes: Record<WritePriority, IQueueItem[]> = {
+    [WritePriority.HIGH]: [],
+    [WritePriority.MOUSE]: [],
+  }
+  // Button byte of the last mouse frame queued for each chip address
+  private buttons = new Map<number, number>()
+  private isDraining = false
+  // Time the bytes written so far are expected to have left the wire
+  private wireFreeAt = 0
+
+  private readonly write: (frame: ICh9329Frame) => Promise<void>
+  private readonly onDepthChange: (depth: number) => void
+
+  constructor(
+    write: (frame: ICh9329Frame) => Promise<void>,
+    onDepthChange: (depth: number) => void = () => {},
+  ) {
+    this.write = write
+    this.onDepthChange = onDepthChange
+  }
+
+  get depth() {
+    return (
+      this.lanes[WritePriority.HIGH].length +
+      this.lanes[WritePriority.MOUSE].length
+    )
+  }
+
+  push(frame: ICh9329Frame) {
+    return new Promise<void>((resolve, reject) => {
+      let priority = frameWritePriority(frame)
+      if (priority === WritePriority.MOUSE && this.isButtonChange(frame)) {
+        // The moves leading to the click go first, on the lane of the keyboard frames
+        this.lanes[WritePriority.HIGH].push(
+          ...this.lanes[WritePriority.MOUSE].splice(0),
+        )
+        priority = WritePriority.HIGH
+      }
+      const lane = this.lanes[priority]
+      const last = lane[lane.length - 1]
+      const merged =
+        priority === WritePriority.MOUSE && last
+          ? mergeMouseData(last.frame, frame)
+          : null
+      if (last && merged) {
+        last.frame = {...last.frame, data: merged}
+        last.callbacks.push({resolve, reject})
+      } else {
+        lane.push({frame, callbacks: [{resolve, reject}]})
+      }
+      this.onDepthChange(this.depth)
+      this.drain()
+    })
+  }
+
+  // Drop every pending frame, e.g. when the port is closed
+  clear() {
+    const items = [
+      ...this.lanes[WritePriority.HIGH],
+      ...this.lanes[WritePriority.MOUSE],
+    ]
+    this.lanes[WritePriority.HIGH] = []
+    this.lanes[WritePriority.MOUSE] = []
+    this.buttons.clear()
+    this.onDepthChange(0)
+    // Nothing will be sent, there is nothing left to wait for
+    items.forEach((item) => item.callbacks.forEach(({resolve}) => resolve()))
+  }
+
+  private isButtonChange(frame: ICh9329Frame) {
+    const buttons = frame.data[1]
+    const changed = buttons !== (this.buttons.get(frame.addr) ?? 0)
+    this.buttons.set(frame.addr, buttons)
+    return changed
+  }
+
+  private shift() {
+    const item =
+      this.lanes[WritePriority.HIGH].shift() ??
+      this.lanes[WritePriority.MOUSE].shift()
+    this.onDepthChange(this.depth)
+    return item
+  }
+
+  private async drain() {
+    if (this.isDraining) {
+      return
+    }
+    this.isDraining = true
+    try {
+      while (this.depth) {
+        // Wait for the wire before taking the next frame, so later frames can still be merged
+        const ahead = this.wireFreeAt - performance.now()
+        if (ahead > MAX_IN_FLIGHT_MS) {
+          await sleep(ahead - MAX_IN_FLIGHT_MS)
+        }
+        const item = this.shift()
+        if (!item) {
+          break
+        }
+        const bytes = encodeFrame(item.frame).length
+        const duration = (bytes * BITS_PER_BYTE * 1000) / this.baudRate
+        this.wireFreeAt =
+          Math.max(this.wireFreeAt, performance.now()) + duration
+        try {
+          await this.write(item.frame)
+          item.callbacks.forEach(({resolve}) => resolve())
+        } catch (error: any) {
+          item.callbacks.forEach(({reject}) => reject(error))
+        }
+      }
+    } finally {
+      this.isDraining = false
+    }
+  }
+}
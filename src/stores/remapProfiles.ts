@@ -0,0 +1,50 @@
+import {defineStore} from 'pinia'
+
+export interface IRemapRule {
+  // KeyboardEvent.code of the key pressed on the host, e.g. MetaLeft or CapsLock
+  from: string
+  // Key, modifier or combo sent to the target instead, e.g. ESCAPE, CTRL or CTRL+C
+  to: string
+}
+
+export interface IRemapProfile {
+  id: string
+  name: string
+  rules: IRemapRule[]
+}
+
+interface IRemapProfilesState {
+  profiles: IRemapProfile[]
+}
+
+export const useRemapProfilesStore = defineStore('remapProfilesStore', {
+  state: (): IRemapProfilesState => {
+    return {
+      profiles: [],
+    }
+  },
+  actions: {
+    addProfile(profile: IRemapProfile) {
+      this.profiles.push(profile)
+    },
+    renameProfile(id: string, name: string) {
+      const profile = this.profiles.find((p) => p.id === id)
+      if (profile) {
+        profile.name = name
+      }
+    },
+    deleteProfile(id: string) {
+      this.profiles = this.profiles.filter((p) => p.id !== id)
+    },
+    addRule(id: string, rule: IRemapRule) {
+      this.profiles.find((p) => p.id === id)?.rules.push(rule)
+    },
+    deleteRule(id: string, index: number) {
+      this.profiles.find((p) => p.id === id)?.rules.splice(index, 1)
+    },
+  },
+  persist: {
+    key: 'ls_key_kbkvm_remap_profiles',
+    paths: ['profiles'],
+  },
+})
@@ -0,0 +1,74 @@
+import {defineStore} from 'pinia'
+import type {ISettings} from '@/stores/settings'
+
+// Settings that belong to one KVM unit, swapped into the settings store on session switch
+export const SESSION_SETTINGS_KEYS = [
+  'baudRate',
+  'autoDetectBaudRate',
+  'cursorMode',
+  'absMouseAreaHeight',
+  'absMouseAreaWidth',
+  'keyboardCompatibleMode',
+  'targetKeyboardLayout',
+  'unicodeInputMethod',
+  'remapProfileId',
+  'chipPreferredConfig',
+  'currentVideoDeviceId',
+  'currentAudioDeviceId',
+  'videoConfig',
+  'preferredResolutionFps',
+  'lastSerialPort',
+] as const
+
+export type ISessionSettings = Partial<
+  Pick<ISettings, (typeof SESSION_SETTINGS_KEYS)[number]>
+>
+
+export interface IKvmSession {
+  id: string
+  name: string
+  // Address code of the chip, sessions sharing a port need distinct addresses
+  address?: number
+  // Settings saved when the session was last switched away from
+  settings: ISessionSettings
+}
+
+interface ISessionsState {
+  sessions: IKvmSession[]
+  activeSessionId: string
+}
+
+export const DEFAULT_SESSION_ID = 'default'
+
+export const useSessionsStore = defineStore('sessionsStore', {
+  state: (): ISessionsState => {
+    return {
+      sessions: [{id: DEFAULT_SESSION_ID, name: 'Default', settings: {}}],
+      activeSessionId: DEFAULT_SESSION_ID,
+    }
+  },
+  actions: {
+    addSession(session: IKvmSession) {
+      this.sessions.push(session)
+    },
+    setSessionAddress(id: string, address: number) {
+      const session = this.sessions.find((s) => s.id === id)
+      if (session) {
+        session.address = address
+      }
+    },
+    renameSession(id: string, name: string) {
+      const session = this.sessions.find((s) => s.id === id)
+      if (session) {
+        session.name = name
+      }
+    },
+    deleteSession(id: string) {
+      this.sessions = this.sessions.filter((s) => s.id !== id)
+    },
+  },
+  persist: {
+    key: 'ls_key_kbkvm_sessions',
+    paths: ['sessions', 'activeSessionId'],
+  },
+})
@@ -19,18 +19,26 @@ export interface ICameraCapabilities {
   options: IResolutionFpsOption[]
 }
 
-interface ISettings {
+export interface ISettings {
   isShowControls: boolean
   fitMode: string
   floatUI: boolean
   enableKvmInput: boolean
   baudRate: string
+  // Probe the chip at each supported baud rate when connecting
+  autoDetectBaudRate: boolean
   // Mouse positioning mode, recommended to enable relative mode under Linux guest
   cursorMode: 'relative' | 'absolute'
   absMouseAreaHeight: number
   absMouseAreaWidth: number
   // Keyboard compatibility mode, recommended to enable under Linux guest
   keyboardCompatibleMode: boolean
+  // Keyboard layout set on the target OS, text is typed with the keys of this layout
+  targetKeyboardLayout: string
+  // Input method of the target OS used for characters the layout has no key for
+  unicodeInputMethod: string
+  // Key remapping profile used for this target, empty for none
+  remapProfileId: string
 
   filterMirrorX: boolean
   filterMirrorY: boolean
@@ -54,6 +62,21 @@ interface ISettings {
   ocrAutoOpenLinks: boolean
   // Auto capture mouse on click
   autoCaptureMouse: boolean
+  // Lock the keyboard in fullscreen so reserved shortcuts like Ctrl+W reach the target
+  keyboardLockInFullscreen: boolean
+  // Combo releasing mouse capture and keyboard lock
+  releaseHotkey: string
+  // Combo switching to the next key remapping profile during live capture
+  remapCycleHotkey: string
+  // Upper limit of the typing rate of bulk paste
+  pasteCharsPerSecond: number
+  // Pause in ms after each pasted line, for slow terminals
+  pasteNewlinePause: number
+  // Last CH9329 parameter block written from the settings, restored after a factory reset.
+  // Belongs to the session, its address and USB ids only fit that chip
+  chipPreferredConfig: number[] | null
+  // USB ids of the last opened serial port, reopened without the port picker
+  lastSerialPort: {usbVendorId?: number; usbProductId?: number} | null
 }
 
 export const useSettingsStore = defineStore('settingsStore', {
@@ -64,10 +87,14 @@ export const useSettingsStore = defineStore('settingsStore', {
       floatUI: true,
       enableKvmInput: true,
       baudRate: '',
+      autoDetectBaudRate: true,
       cursorMode: 'absolute',
       absMouseAreaHeight: 100,
       absMouseAreaWidth: 100,
       keyboardCompatibleMode: false,
+      targetKeyboardLayout: 'us',
+      unicodeInputMethod: 'none',
+      remapProfileId: '',
 
       filterMirrorX: false,
       filterMirrorY: false,
@@ -84,6 +111,13 @@ export const useSettingsStore = defineStore('settingsStore', {
       qrAutoOpenLinks: false,
       ocrAutoOpenLinks: false,
       autoCaptureMouse: true,
+      keyboardLockInFullscreen: true,
+      releaseHotkey: 'SHIFT+ESCAPE',
+      remapCycleHotkey: 'CTRL+ALT+K',
+      pasteCharsPerSecond: 60,
+      pasteNewlinePause: 0,
+      chipPreferredConfig: null,
+      lastSerialPort: null,
     }
   },
   persist: {
@@ -95,10 +129,14 @@ export const useSettingsStore = defineStore('settingsStore', {
       'floatUI',
       'enableKvmInput',
       'baudRate',
+      'autoDetectBaudRate',
       'cursorMode',
       'absMouseAreaHeight',
       'absMouseAreaWidth',
       'keyboardCompatibleMode',
+      'targetKeyboardLayout',
+      'unicodeInputMethod',
+      'remapProfileId',
       'filterMirrorX',
       'filterMirrorY',
       'filterRotation',
@@ -113,6 +151,13 @@ export const useSettingsStore = defineStore('settingsStore', {
       'qrAutoOpenLinks',
       'ocrAutoOpenLinks',
       'autoCaptureMouse',
+      'keyboardLockInFullscreen',
+      'releaseHotkey',
+      'remapCycleHotkey',
+      'pasteCharsPerSecond',
+      'pasteNewlinePause',
+      'chipPreferredConfig',
+      'lastSerialPort',
     ],
   },
 })